@@ -1,10 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
-import { MOLECULES, GEOMETRY_SLOTS, GEOMETRY_NAMES } from './constants';
-import { HybridizationType, SlotType, OrbitalSlot } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { MOLECULES, DEFAULT_LEVEL_PACK, GEOMETRY_NAMES, MOLECULAR_SHAPE_OPTIONS, MODE_CONFIGS, BOND_ORDER_SYMBOLS, HINT_CONCEPT_LABELS, VISUAL_CONFIG, MUSIC_INTENSITY_BY_HYBRIDIZATION, STREAK_MOTIF_MIN } from './constants';
+import { HybridizationType, SlotType, OrbitalSlot, LevelPack, MoleculeDef, GameState, GameMode, SampleRecord, DomainToken } from './types';
 import OrbitalVisualizer from './components/OrbitalVisualizer';
-import { getHint, getSuccessMessage } from './services/geminiService';
+import PackSelector from './components/PackSelector';
+import LevelEditor from './components/LevelEditor';
+import ResumePrompt from './components/ResumePrompt';
+import ResultsReport from './components/ResultsReport';
+import ChoiceQuestion from './components/ChoiceQuestion';
+import AngleEstimate from './components/AngleEstimate';
+import DomainPalette, { DomainTokenIcon } from './components/DomainPalette';
+import ExportMenu from './components/ExportMenu';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import { getHint, getSuccessMessage } from './services/hintService';
+import { diagnoseStructure } from './services/diagnosisService';
 import { audioService } from './services/audioService';
+import {
+  createGameState,
+  recordAnswer,
+  saveSession,
+  loadSession,
+  clearSession
+} from './services/progressService';
+import { scoreAttempt, isStepLocked, getHintPenalty, getHintTiers } from './services/scoringService';
+import { advanceGame } from './services/sequencerService';
+import {
+  auditMolecules,
+  computeFormalCharges,
+  countCentralElectrons,
+  countResonanceForms
+} from './services/lewisService';
+import {
+  validateStructure,
+  validateMolecularShape,
+  validateBondAngleEstimate,
+  getMolecularShape
+} from './services/validationService';
+import { getAngleArcs, getPrincipalBondAngle } from './services/bondAngleService';
+import { createEmptySlots } from './services/structureService';
+import { getPalette, isDomainAvailable, isSameDomain, placeDomain, clearSlot, swapSlots } from './services/paletteService';
+import { computeDipole, validatePolarity, isMoleculePolar } from './services/polarityService';
 import { 
   Atom, 
   Beaker, 
@@ -14,91 +49,275 @@ import {
   RotateCcw, 
   ChevronRight,
   BrainCircuit,
-  Volume2,
-  VolumeX,
   Home,
   XCircle,
   ArrowRight,
   Microscope
 } from 'lucide-react';
 
+// Flag any level entry whose hand-typed answer disagrees with its electron count
+auditMolecules(MOLECULES);
+
 const App: React.FC = () => {
   // --- State ---
+  const [levelPack, setLevelPack] = useState<LevelPack | null>(null);
+  const [savedSession, setSavedSession] = useState(loadSession);
+  const [game, setGame] = useState<GameState>(createGameState);
   const [showIntro, setShowIntro] = useState(true);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [showEditor, setShowEditor] = useState(false);
   const [selectedHybridization, setSelectedHybridization] = useState<HybridizationType | null>(null);
+  const [selectedDomain, setSelectedDomain] = useState<DomainToken | null>(null);
+  const [activeBondOrder, setActiveBondOrder] = useState(1);
   const [currentSlots, setCurrentSlots] = useState<OrbitalSlot[]>([]);
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | 'info', message: string } | null>(null);
-  const [score, setScore] = useState(0);
   const [isLoadingAI, setIsLoadingAI] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
-
-  const molecule = MOLECULES[currentIndex];
-  const isLastMolecule = currentIndex === MOLECULES.length - 1;
+  const [selectedShape, setSelectedShape] = useState<string | null>(null);
+  const [hasSubmittedShape, setHasSubmittedShape] = useState(false);
+  const [angleEstimate, setAngleEstimate] = useState(120);
+  const [hasFinishedAngle, setHasFinishedAngle] = useState(false);
+  const [selectedPolarity, setSelectedPolarity] = useState<string | null>(null);
+  const [hasSubmittedPolarity, setHasSubmittedPolarity] = useState(false);
+  const lastSubmissionAt = useRef(Date.now());
+  const aiRequest = useRef<AbortController | null>(null);
+  // A press on a palette token or an occupied lobe; it becomes a drag once the pointer moves
+  const drag = useRef<{ domain: DomainToken; fromSlotId?: number; startX: number; startY: number; moved: boolean } | null>(null);
+  const [dragGhost, setDragGhost] = useState<{ domain: DomainToken; x: number; y: number } | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  const suppressClick = useRef(false);
+  const structureView = useRef<HTMLDivElement | null>(null);
+  const correctStreak = useRef(0); // Correct answers in a row, across steps and samples
+
+  const molecules: MoleculeDef[] = (levelPack ?? DEFAULT_LEVEL_PACK).molecules;
+  const currentTurn: number = game.currentTurn;
+  const currentIndex: number = game.sequence[currentTurn];
+  const score: number = game.score;
+  const modeConfig = MODE_CONFIGS[game.mode];
+  const molecule = molecules[currentIndex];
+  const isReview = game.sequence.indexOf(currentIndex) < currentTurn;
+  const seenCount = new Set(game.sequence).size;
+  const ligandAtoms = Array.from(new Set(molecule.ligands.map(l => l.atom)));
+  const palette = getPalette(molecule, currentSlots);
+  // The selected domain while any are left, otherwise the first one still in the palette
+  const activeDomain: DomainToken | null = selectedDomain && isDomainAvailable(palette, selectedDomain)
+    ? selectedDomain
+    : palette.find(entry => entry.remaining > 0)?.domain ?? null;
+  const resonanceForms = countResonanceForms(molecule.ligands);
+  const hasAngleRound = getPrincipalBondAngle(molecule) !== null;
+  const sampleRecord: SampleRecord | undefined = game.history[currentTurn];
+  // Whether the run ends after this turn depends on how it went, so ask the sequencer
+  const isLastMolecule = hasSubmittedPolarity && advanceGame(game, molecules).isComplete;
+  const hintsUsed = sampleRecord?.hintsUsed ?? 0;
+  const hintTiers = getHintTiers(game.mode);
+  const isHintLadderDone = hintsUsed >= hintTiers.length;
+  const nextHint = hintTiers[Math.min(hintsUsed, hintTiers.length - 1)];
 
   // --- Initialization per molecule ---
   useEffect(() => {
-    // Reset state when molecule changes
-    setSelectedHybridization(null);
-    setCurrentSlots([]);
+    // Reset state when molecule changes, restoring any answers already recorded for it.
+    // A hint still on its way belongs to the previous sample, so cancel it.
+    aiRequest.current?.abort();
+    setIsLoadingAI(false);
+    setSelectedHybridization(sampleRecord?.structure?.hybridization ?? null);
+    setSelectedDomain(null);
+    setActiveBondOrder(1);
+    setCurrentSlots(sampleRecord?.structure?.slots ?? []);
     setFeedback(null);
-    setHasSubmitted(false);
-  }, [currentIndex]);
+    setHasSubmitted(isStepLocked(game.mode, sampleRecord?.structure));
+    setSelectedShape(sampleRecord?.shape?.answer ?? null);
+    setHasSubmittedShape(isStepLocked(game.mode, sampleRecord?.shape));
+    setAngleEstimate(sampleRecord?.bondAngle?.estimate ?? 120);
+    setHasFinishedAngle(!!sampleRecord?.bondAngle);
+    setSelectedPolarity(sampleRecord?.polarity?.answer ?? null);
+    setHasSubmittedPolarity(isStepLocked(game.mode, sampleRecord?.polarity));
+    lastSubmissionAt.current = Date.now();
+  }, [currentTurn, levelPack]);
+
+  // The soundtrack tenses up on the harder hybridizations and resolves when the run ends.
+  // It stays calm until the structure step is locked, so the drone can't give the layout away.
+  useEffect(() => {
+    if (game.isComplete) return;
+    audioService.setMusicIntensity(hasSubmitted ? MUSIC_INTENSITY_BY_HYBRIDIZATION[molecule.hybridization] : 0);
+  }, [molecule.hybridization, hasSubmitted, game.isComplete]);
+
+  useEffect(() => {
+    if (levelPack && game.isComplete) audioService.playCadence();
+  }, [game.isComplete]);
+
+  // Every submission changes the game state, so this saves after each one. Nothing is
+  // saved until the run starts, so the intro screen never leaves an empty run to resume.
+  useEffect(() => {
+    if (levelPack && !showIntro) saveSession(levelPack, game);
+  }, [game, levelPack, showIntro]);
 
   // --- Handlers ---
 
+  const updateRecord = (changes: Partial<Omit<SampleRecord, 'formula' | 'timeSpentMs'>>, points = 0) => {
+    const now = Date.now();
+    const elapsedMs = now - lastSubmissionAt.current;
+    lastSubmissionAt.current = now;
+    setGame(prev => recordAnswer(prev, currentTurn, molecule.formula, changes, points, elapsedMs));
+  };
+
+  const trackStreak = (isCorrect: boolean) => {
+    correctStreak.current = isCorrect ? correctStreak.current + 1 : 0;
+    if (correctStreak.current >= STREAK_MOTIF_MIN) audioService.playStreakMotif(correctStreak.current);
+  };
+
+  // Cancels any hint or success note still in flight and starts tracking a new one
+  const startAIRequest = () => {
+    aiRequest.current?.abort();
+    const controller = new AbortController();
+    aiRequest.current = controller;
+    setIsLoadingAI(true);
+    return controller;
+  };
+
+  const finishAIRequest = (controller: AbortController) => {
+    if (aiRequest.current !== controller) return;
+    aiRequest.current = null;
+    setIsLoadingAI(false);
+  };
+
+  const handlePackSelect = (pack: LevelPack) => {
+    setLevelPack(pack);
+    setShowEditor(false);
+    setGame(prev => createGameState(prev.mode, prev.adaptive));
+  };
+
+  const handleResume = () => {
+    if (!savedSession) return;
+    setGame(savedSession.game);
+    setLevelPack(savedSession.pack);
+    setSavedSession(null);
+    handleStartGame();
+  };
+
+  const handleStartNew = () => {
+    clearSession();
+    setSavedSession(null);
+  };
+
+  const handleNewRun = () => {
+    clearSession();
+    audioService.stopMusic();
+    correctStreak.current = 0;
+    setLevelPack(null);
+    setGame(createGameState());
+    setShowIntro(true);
+  };
+
+  const handleModeSelect = (mode: GameMode) => {
+    audioService.playClick();
+    setGame(prev => ({ ...prev, mode }));
+  };
+
+  const handleAdaptiveToggle = () => {
+    audioService.playClick();
+    setGame(prev => ({ ...prev, adaptive: !prev.adaptive }));
+  };
+
   const handleStartGame = () => {
     setShowIntro(false);
     audioService.init();
-    audioService.startAmbientDrone();
+    audioService.startMusic();
     audioService.playSelect();
   };
 
-  const toggleMute = () => {
-    const newMuted = !isMuted;
-    setIsMuted(newMuted);
-    audioService.setMute(newMuted);
-  };
-
   const handleHybridizationSelect = (hyb: HybridizationType) => {
     if (hasSubmitted) return; // Lock after submission
 
     audioService.playSelect();
     setSelectedHybridization(hyb);
     // Initialize slots based on selection
-    const slotConfig = GEOMETRY_SLOTS[hyb];
-    
-    const newSlots = slotConfig.map((s, i) => ({
-      id: i,
-      angle: s.angle,
-      tilt: s.tilt,
-      type: SlotType.EMPTY,
-      positionType: s.type
-    }));
-    setCurrentSlots(newSlots);
+    setCurrentSlots(createEmptySlots(hyb));
     setFeedback(null);
   };
 
   const handleSlotClick = (id: number) => {
     if (!selectedHybridization || hasSubmitted) return; // Lock after submission
-    
+    if (suppressClick.current) return; // The click that ends a drag
+    const slot = currentSlots.find(s => s.id === id);
+    if (!slot) return;
+
     audioService.playClick();
+    if (slot.type === SlotType.BOND && slot.bondOrder !== activeBondOrder) {
+      // A placed bond of another order is switched to the active order first
+      setCurrentSlots(placeDomain(currentSlots, id, { type: SlotType.BOND, ligand: slot.ligand }, activeBondOrder));
+    } else if (activeDomain && !isSameDomain(slot, activeDomain)) {
+      setCurrentSlots(placeDomain(currentSlots, id, activeDomain, activeBondOrder));
+    } else {
+      setCurrentSlots(clearSlot(currentSlots, id));
+    }
+    setFeedback(null);
+  };
 
-    setCurrentSlots(prev => prev.map(slot => {
-      if (slot.id !== id) return slot;
-      
-      // Cycle: EMPTY -> BOND -> LONE_PAIR -> EMPTY
-      let nextType = SlotType.EMPTY;
-      if (slot.type === SlotType.EMPTY) nextType = SlotType.BOND;
-      else if (slot.type === SlotType.BOND) nextType = SlotType.LONE_PAIR;
-      else nextType = SlotType.EMPTY;
-
-      return { ...slot, type: nextType };
-    }));
+  // Keyboard counterpart of dragging: B and L place a domain from the palette, E clears
+  const handleSlotSet = (id: number, type: SlotType) => {
+    if (!selectedHybridization || hasSubmitted) return;
+    const slot = currentSlots.find(s => s.id === id);
+    if (!slot || slot.type === type) return;
+
+    if (type === SlotType.EMPTY) {
+      audioService.playClick();
+      setCurrentSlots(clearSlot(currentSlots, id));
+      setFeedback(null);
+      return;
+    }
+
+    const domain = activeDomain?.type === type
+      ? activeDomain
+      : palette.find(entry => entry.domain.type === type && entry.remaining > 0)?.domain;
+    if (!domain) {
+      audioService.playError();
+      setFeedback({ type: 'info', message: `No ${type === SlotType.BOND ? 'bonds' : 'lone pairs'} left in the palette.` });
+      return;
+    }
+
+    audioService.playClick();
+    setCurrentSlots(placeDomain(currentSlots, id, domain, activeBondOrder));
     setFeedback(null);
   };
 
+  const handleDomainSelect = (domain: DomainToken) => {
+    if (hasSubmitted) return;
+    audioService.playClick();
+    setSelectedDomain(domain);
+  };
+
+  const handleDragStart = (domain: DomainToken, fromSlotId: number | undefined, event: React.PointerEvent) => {
+    if (!selectedHybridization || hasSubmitted || event.button > 0) return;
+    drag.current = { domain, fromSlotId, startX: event.clientX, startY: event.clientY, moved: false };
+  };
+
+  const handleSlotDragStart = (id: number, event: React.PointerEvent) => {
+    const slot = currentSlots.find(s => s.id === id);
+    if (slot && slot.type !== SlotType.EMPTY) {
+      handleDragStart({ type: slot.type, ligand: slot.ligand }, id, event);
+    }
+  };
+
+  // Palette domains land on a lobe; lobes move or swap, or go back to the palette when dropped elsewhere
+  const handleDomainDrop = (domain: DomainToken, fromSlotId: number | undefined, targetId: number | null) => {
+    if (fromSlotId !== undefined) {
+      if (targetId === fromSlotId) return;
+      setCurrentSlots(targetId === null ? clearSlot(currentSlots, fromSlotId) : swapSlots(currentSlots, fromSlotId, targetId));
+    } else if (targetId !== null && isDomainAvailable(palette, domain)) {
+      setSelectedDomain(domain);
+      setCurrentSlots(placeDomain(currentSlots, targetId, domain, activeBondOrder));
+    } else {
+      return;
+    }
+    audioService.playClick();
+    setFeedback(null);
+  };
+
+  const handleBondOrderSelect = (bondOrder: number) => {
+    if (hasSubmitted) return;
+    audioService.playClick();
+    setActiveBondOrder(bondOrder);
+  };
+
   const handleCheck = async () => {
     audioService.playSelect();
     
@@ -109,72 +328,154 @@ const App: React.FC = () => {
       return;
     }
 
-    // LOCK THE ATTEMPT - One Chance Mechanic
-    setHasSubmitted(true);
-
     // Validation Logic
-    let isCorrect = true;
-    let failReason = "";
+    const { isCorrect, failReason, failure } = validateStructure(molecule, selectedHybridization, currentSlots);
+    const hasRightGeometry = selectedHybridization === molecule.hybridization;
+    const { record, delta } = scoreAttempt(game.mode, 'STRUCTURE', sampleRecord?.structure, isCorrect, hasRightGeometry);
+    const failures = [...(sampleRecord?.structure?.failures ?? []), ...(failure ? [failure] : [])];
+    updateRecord({ structure: { ...record, hybridization: selectedHybridization, slots: currentSlots, failReason, failures } }, delta);
 
-    // 1. Check Hybridization (Geometry)
-    if (selectedHybridization !== molecule.hybridization) {
-      isCorrect = false;
-      failReason = `Incorrect Geometry. The stable shape is ${GEOMETRY_NAMES[molecule.hybridization]}.`;
-    } else {
-      // 2. Check Counts
-      const bonds = currentSlots.filter(s => s.type === SlotType.BOND).length;
-      const lonePairs = currentSlots.filter(s => s.type === SlotType.LONE_PAIR).length;
-
-      if (bonds !== molecule.bondingPairs || lonePairs !== molecule.lonePairs) {
-        isCorrect = false;
-        failReason = `Incorrect orbital contents. Expected ${molecule.bondingPairs} Bonds and ${molecule.lonePairs} Lone Pairs.`;
-      } 
-      // 3. Check Geometry Rules (Specific Mechanics)
-      else if (molecule.geometryRules?.lonePairsMustBe) {
-        const incorrectlyPlacedLP = currentSlots.some(
-          s => s.type === SlotType.LONE_PAIR && s.positionType !== molecule.geometryRules?.lonePairsMustBe
-        );
-        
-        if (incorrectlyPlacedLP) {
-          isCorrect = false;
-          failReason = "Unstable arrangement! Lone pairs must be in equatorial positions to minimize repulsion.";
-        }
-      }
-    }
+    // Exam mode locks after one attempt; practice mode only once it is right
+    setHasSubmitted(isStepLocked(game.mode, record));
+    trackStreak(isCorrect);
 
     if (isCorrect) {
         audioService.playSuccess();
-        setScore(prev => prev + 100);
         
-        setIsLoadingAI(true);
-        const successMsg = await getSuccessMessage(molecule);
-        setIsLoadingAI(false);
-        
-        setFeedback({ type: 'success', message: successMsg });
-    } else {
+        const controller = startAIRequest();
+        try {
+          const successMsg = await getSuccessMessage(molecule, {
+            signal: controller.signal,
+            onText: text => !controller.signal.aborted && setFeedback({ type: 'success', message: text })
+          });
+          setFeedback({ type: 'success', message: successMsg });
+        } catch (error) {
+          if (!controller.signal.aborted) throw error;
+        } finally {
+          finishAIRequest(controller);
+        }
+    } else if (!modeConfig.allowRetries) {
         audioService.playError();
         // Zero marks for incorrect answer, forcing next.
-        setFeedback({ type: 'error', message: `Analysis Failed. ${failReason} Proceed to next sample.` });
+        setFeedback({ type: 'error', message: `Analysis Failed. ${failReason} Name the molecular shape to continue.` });
+    } else {
+        audioService.playError();
+        const credit = delta > 0 ? ` +${delta} for the right electron geometry.` : '';
+        setFeedback({ type: 'error', message: `${failReason}${credit} Adjust the structure and verify again.` });
+    }
+  };
+
+  const handleShapeSelect = (shape: string) => {
+    if (hasSubmittedShape) return;
+    audioService.playClick();
+    setSelectedShape(shape);
+  };
+
+  const handleShapeCheck = () => {
+    if (!selectedShape || hasSubmittedShape) return;
+    audioService.playSelect();
+
+    const { isCorrect, failReason } = validateMolecularShape(molecule, selectedShape);
+    const { record, delta } = scoreAttempt(game.mode, 'MOLECULAR_SHAPE', sampleRecord?.shape, isCorrect);
+    updateRecord({ shape: { ...record, answer: selectedShape } }, delta);
+    setHasSubmittedShape(isStepLocked(game.mode, record));
+    trackStreak(isCorrect);
+
+    if (isCorrect) {
+      audioService.playSuccess();
+      setFeedback({ type: 'success', message: `Correct! ${molecule.formula} has a ${selectedShape} molecular shape.` });
+    } else {
+      audioService.playError();
+      setFeedback({ type: 'error', message: `${failReason} ${modeConfig.allowRetries ? 'Pick another shape.' : 'Estimate the bond angle or skip it.'}` });
     }
   };
 
+  const handleAngleCheck = () => {
+    if (hasFinishedAngle || !hasAngleRound) return;
+    audioService.playSelect();
+    setHasFinishedAngle(true);
+
+    // The estimate is a single optional attempt in every mode
+    const { isCorrect, failReason } = validateBondAngleEstimate(molecule, angleEstimate);
+    const { record, delta } = scoreAttempt(game.mode, 'BOND_ANGLE', undefined, isCorrect);
+    updateRecord({ bondAngle: { ...record, estimate: angleEstimate } }, delta);
+    trackStreak(isCorrect);
+
+    if (isCorrect) {
+      audioService.playSuccess();
+      setFeedback({ type: 'success', message: `Good estimate! Compare it with the angles marked on the structure.` });
+    } else {
+      audioService.playError();
+      setFeedback({ type: 'error', message: failReason });
+    }
+  };
+
+  const handleAngleSkip = () => {
+    audioService.playClick();
+    setHasFinishedAngle(true);
+    updateRecord({ bondAngle: { estimate: null, isCorrect: false, attempts: 0, points: 0 } });
+    setFeedback({ type: 'info', message: "Bond angle round skipped. The predicted angles are marked on the structure." });
+  };
+
   const handleAIHint = async () => {
     audioService.playSelect();
-    setIsLoadingAI(true);
-    const msg = await getHint(molecule);
-    setFeedback({ type: 'info', message: msg });
-    setIsLoadingAI(false);
+    const { tier, label } = nextHint;
+    // Each new rung of the ladder costs the hint penalty; after the last one it is shown again for free
+    if (!isHintLadderDone) updateRecord({ hintsUsed: hintsUsed + 1 }, -getHintPenalty(game.mode));
+
+    // The tutor works from the latest wrong structure, if there is one
+    const structure = sampleRecord?.structure;
+    const lastError = structure && !structure.isCorrect ? structure : undefined;
+    const controller = startAIRequest();
+    try {
+      const hint = await getHint({
+        molecule,
+        tier,
+        currentError: lastError?.failReason,
+        failure: lastError?.failures[lastError.failures.length - 1],
+        ...(selectedHybridization ? { diagnosis: diagnoseStructure(molecule, selectedHybridization, currentSlots) } : {})
+      }, {
+        signal: controller.signal,
+        onText: text => !controller.signal.aborted && setFeedback({ type: 'info', message: `${label}: ${text}` })
+      });
+      setFeedback({ type: 'info', message: `${label} · ${HINT_CONCEPT_LABELS[hint.concept]}: ${hint.text}` });
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      finishAIRequest(controller);
+    }
   };
 
-  const handleNext = () => {
+  const handlePolaritySelect = (polarity: string) => {
+    if (hasSubmittedPolarity) return;
+    audioService.playClick();
+    setSelectedPolarity(polarity);
+  };
+
+  const handlePolarityCheck = () => {
+    if (!selectedPolarity || hasSubmittedPolarity) return;
     audioService.playSelect();
-    if (currentIndex < MOLECULES.length - 1) {
-      setCurrentIndex(prev => prev + 1);
+
+    const { isCorrect, failReason } = validatePolarity(molecule, selectedPolarity === 'Polar');
+    const { record, delta } = scoreAttempt(game.mode, 'POLARITY', sampleRecord?.polarity, isCorrect);
+    updateRecord({ polarity: { ...record, answer: selectedPolarity } }, delta);
+    setHasSubmittedPolarity(isStepLocked(game.mode, record));
+    trackStreak(isCorrect);
+
+    if (isCorrect) {
+      audioService.playSuccess();
+      setFeedback({ type: 'success', message: `Correct! ${molecule.formula} is ${selectedPolarity.toLowerCase()}. The net dipole is shown on your structure.` });
     } else {
-      setFeedback({ type: 'info', message: "All samples analyzed. Refresh to restart protocol." });
+      audioService.playError();
+      setFeedback({ type: 'error', message: `${failReason} ${modeConfig.allowRetries ? 'Try again.' : 'Proceed to next sample.'}` });
     }
   };
 
+  const handleNext = () => {
+    audioService.playSelect();
+    setGame(prev => advanceGame(prev, molecules));
+  };
+
   const handleReset = () => {
       if (hasSubmitted) return;
       audioService.playClick();
@@ -183,11 +484,99 @@ const App: React.FC = () => {
       setFeedback(null);
   };
 
+  // Keyboard shortcuts on the game screen: 1–5 pick the electron geometry, V verifies.
+  // The listener is registered once and calls the latest handler through this ref.
+  const keyDownHandler = useRef<(event: KeyboardEvent) => void>(() => {});
+  keyDownHandler.current = (event: KeyboardEvent) => {
+    if (!levelPack || showIntro || showEditor || game.isComplete) return;
+    const target = event.target as HTMLElement | null;
+    if (event.altKey || event.ctrlKey || event.metaKey || event.defaultPrevented) return;
+    if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+    const hybridization = Object.values(HybridizationType)[Number(event.key) - 1];
+    if (hybridization) {
+      event.preventDefault();
+      handleHybridizationSelect(hybridization);
+    } else if (event.key.toLowerCase() === 'v' && selectedHybridization && !hasSubmitted) {
+      event.preventDefault();
+      handleCheck();
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => keyDownHandler.current(event);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Drags follow the pointer on the window so they keep going outside the lobe they started on.
+  // The listeners are registered once and drop through the latest handler in this ref.
+  const domainDropHandler = useRef(handleDomainDrop);
+  domainDropHandler.current = handleDomainDrop;
+
+  useEffect(() => {
+    const findDropTarget = (x: number, y: number) => {
+      const lobe = document.elementFromPoint(x, y)?.closest('[data-slot-id]');
+      return lobe ? Number(lobe.getAttribute('data-slot-id')) : null;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const current = drag.current;
+      if (!current) return;
+      if (!current.moved && Math.hypot(event.clientX - current.startX, event.clientY - current.startY) < VISUAL_CONFIG.DRAG_THRESHOLD) return;
+      current.moved = true;
+      setDragGhost({ domain: current.domain, x: event.clientX, y: event.clientY });
+      setDropTargetId(findDropTarget(event.clientX, event.clientY));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const current = drag.current;
+      drag.current = null;
+      setDragGhost(null);
+      setDropTargetId(null);
+      if (!current?.moved || event.type === 'pointercancel') return;
+
+      // The browser still fires a click where the drag ended
+      suppressClick.current = true;
+      setTimeout(() => { suppressClick.current = false; }, 0);
+      domainDropHandler.current(current.domain, current.fromSlotId, findDropTarget(event.clientX, event.clientY));
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, []);
+
+  if (levelPack && game.isComplete) {
+    return <ResultsReport pack={levelPack} game={game} onNewRun={handleNewRun} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-950 text-slate-200 overflow-x-hidden font-sans">
       
+      {/* Level Pack Selection */}
+      {savedSession && !levelPack && (
+        <ResumePrompt session={savedSession} onResume={handleResume} onStartNew={handleStartNew} />
+      )}
+
+      {!savedSession && !levelPack && !showEditor && <PackSelector onSelect={handlePackSelect} onOpenEditor={() => setShowEditor(true)} />}
+
+      {/* Level Pack Authoring */}
+      {showEditor && (
+        <LevelEditor
+          initialPack={DEFAULT_LEVEL_PACK}
+          onClose={() => setShowEditor(false)}
+          onPlay={handlePackSelect}
+        />
+      )}
+
       {/* Intro Modal Overlay */}
-      {showIntro && (
+      {levelPack && showIntro && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/90 backdrop-blur-md p-4 animate-in fade-in duration-300">
           <div className="bg-slate-900 border border-slate-700 p-8 rounded-2xl max-w-2xl shadow-2xl relative overflow-hidden ring-1 ring-white/10">
             {/* Background Decoration */}
@@ -211,6 +600,49 @@ const App: React.FC = () => {
                 </p>
               </div>
 
+              <div className="w-full mb-4">
+                <p className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-2">Mode</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.values(GameMode).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleModeSelect(mode)}
+                      className={`py-2.5 rounded-lg border font-bold transition-all duration-200
+                        ${game.mode === mode
+                          ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-900/50'
+                          : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200'}
+                      `}
+                    >
+                      {MODE_CONFIGS[mode].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-slate-400 leading-relaxed mt-3">{modeConfig.intro}</p>
+
+                <button
+                  onClick={handleAdaptiveToggle}
+                  className={`mt-3 w-full text-left px-4 py-3 rounded-lg border transition-all duration-200 flex items-center justify-between gap-4
+                    ${game.adaptive ? 'bg-indigo-900/30 border-indigo-600/60' : 'bg-slate-950 border-slate-800 hover:border-slate-600'}
+                  `}
+                >
+                  <div>
+                    <p className="font-bold text-slate-200">Adaptive Order</p>
+                    <p className="text-xs text-slate-400">Picks samples that target your weak areas. In Practice mode, missed ones come back for review.</p>
+                  </div>
+                  <div className={`w-10 h-6 rounded-full p-1 transition-colors shrink-0 ${game.adaptive ? 'bg-indigo-500' : 'bg-slate-700'}`}>
+                    <div className={`w-4 h-4 rounded-full bg-white transition-transform ${game.adaptive ? 'translate-x-4' : ''}`} />
+                  </div>
+                </button>
+              </div>
+
+              <div className="w-full mb-6 p-4 bg-slate-950 rounded-xl border border-slate-800 flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Level Pack</p>
+                  <p className="font-bold text-slate-200">{levelPack.title}</p>
+                </div>
+                <span className="font-mono text-sm text-indigo-300">{levelPack.molecules.length} samples</span>
+              </div>
+
               <button 
                 onClick={handleStartGame}
                 className="w-full py-4 rounded-xl bg-gradient-to-r from-indigo-600 to-violet-600 text-white font-bold text-lg hover:from-indigo-500 hover:to-violet-500 shadow-xl shadow-indigo-900/30 transition-all flex items-center justify-center gap-2 group"
@@ -232,6 +664,10 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-6">
+            <span className="px-2.5 py-1 rounded-md bg-slate-800 border border-slate-700 text-xs font-bold text-slate-300 uppercase tracking-wider">
+              {modeConfig.label}
+            </span>
+
             <div className="flex flex-col items-end">
                <span className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Score</span>
                <span className="font-mono text-xl text-emerald-400 font-bold">{score}</span>
@@ -239,9 +675,7 @@ const App: React.FC = () => {
             
             <div className="h-8 w-px bg-slate-800 mx-2"></div>
 
-            <button onClick={toggleMute} className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white">
-              {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
-            </button>
+            <AudioSettingsPanel />
 
             <a 
               href="https://ai.studio/apps/drive/1hh2BRHWm0KB4Wej4z3tSpDYygw3-LI5k?fullscreenApplet=true"
@@ -263,8 +697,14 @@ const App: React.FC = () => {
         <div className="lg:col-span-3 space-y-6">
           <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl">
             <div className="flex items-center justify-between mb-4">
-              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Sample {currentIndex + 1} of {MOLECULES.length}</span>
-              <Beaker className="w-5 h-5 text-slate-600" />
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">
+                {game.adaptive ? `Sample ${currentTurn + 1} · ${seenCount} of ${molecules.length} seen` : `Sample ${currentIndex + 1} of ${molecules.length}`}
+              </span>
+              {isReview ? (
+                <span className="px-2 py-0.5 rounded-md bg-amber-900/30 border border-amber-800/40 text-[10px] font-bold text-amber-300 uppercase tracking-wider">Review</span>
+              ) : (
+                <Beaker className="w-5 h-5 text-slate-600" />
+              )}
             </div>
             <h2 className="text-4xl font-bold text-white mb-2">{molecule.formula}</h2>
             <h3 className="text-lg text-slate-400 font-medium mb-6">{molecule.name}</h3>
@@ -276,9 +716,15 @@ const App: React.FC = () => {
                   <span className="font-mono font-bold text-indigo-300">{molecule.centralAtom}</span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-slate-500">Ligand</span>
-                  <span className="font-mono font-bold text-emerald-300">{molecule.ligandAtom}</span>
+                  <span className="text-sm text-slate-500">{ligandAtoms.length > 1 ? 'Ligands' : 'Ligand'}</span>
+                  <span className="font-mono font-bold text-emerald-300">{ligandAtoms.join(', ')}</span>
                 </div>
+                {resonanceForms > 1 && (
+                  <div className="flex justify-between items-center mt-2">
+                    <span className="text-sm text-slate-500">Resonance Forms</span>
+                    <span className="font-mono font-bold text-amber-300">{resonanceForms}</span>
+                  </div>
+                )}
               </div>
               
               <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700/50">
@@ -291,7 +737,7 @@ const App: React.FC = () => {
               <div className="p-3 bg-amber-900/20 border border-amber-800/30 rounded-lg flex gap-3">
                  <AlertCircle className="w-5 h-5 text-amber-500 shrink-0" />
                  <p className="text-xs text-amber-200/80 leading-snug">
-                   Analysis Protocol: You have one attempt per sample. Incorrect structure validation will result in data loss (0 marks).
+                   {modeConfig.protocolNote}
                  </p>
               </div>
             </div>
@@ -304,12 +750,18 @@ const App: React.FC = () => {
           >
             <BrainCircuit className="w-5 h-5 group-hover:scale-110 transition-transform" />
             {isLoadingAI ? "Analyzing..." : "Request AI Assistance"}
+            {!isLoadingAI && (
+              <span className="text-xs text-indigo-400/70">
+                {isHintLadderDone ? 'Last hint' : `${nextHint.label} ${hintsUsed + 1}/${hintTiers.length}`}
+                {modeConfig.hintPenalty > 0 && !isHintLadderDone && ` (−${modeConfig.hintPenalty})`}
+              </span>
+            )}
           </button>
         </div>
 
         {/* Center Panel: Visualization */}
         <div className="lg:col-span-6 flex flex-col">
-          <div className="flex-1 bg-slate-900/50 border border-slate-800 rounded-3xl relative overflow-hidden flex flex-col items-center justify-center p-8 min-h-[500px]">
+          <div ref={structureView} className="flex-1 bg-slate-900/50 border border-slate-800 rounded-3xl relative overflow-hidden flex flex-col items-center justify-center p-8 min-h-[500px]">
             {/* Grid Pattern */}
             <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.03)_1px,transparent_1px)] bg-[size:40px_40px]"></div>
             
@@ -318,7 +770,12 @@ const App: React.FC = () => {
                 centralAtom={molecule.centralAtom}
                 slots={currentSlots}
                 onSlotClick={handleSlotClick}
-                ligandAtom={molecule.ligandAtom}
+                onSlotSet={handleSlotSet}
+                onSlotDragStart={handleSlotDragStart}
+                dropTargetId={dropTargetId}
+                formalCharges={computeFormalCharges(molecule.centralAtom, currentSlots, molecule.ligands)}
+                angleArcs={hasFinishedAngle ? getAngleArcs(selectedHybridization, currentSlots) : undefined}
+                dipole={hasSubmittedPolarity ? computeDipole(molecule.centralAtom, currentSlots) : undefined}
               />
             ) : (
               <div className="text-center space-y-4 z-10 opacity-60">
@@ -327,9 +784,20 @@ const App: React.FC = () => {
               </div>
             )}
             
+            {/* Electron Readout */}
+            {selectedHybridization && (
+              <div className="absolute top-4 left-4 z-10 px-3 py-2 rounded-lg bg-slate-950/80 border border-slate-800 text-xs font-mono text-slate-400">
+                {molecule.centralAtom} shell: <span className="text-indigo-300 font-bold">{countCentralElectrons(currentSlots)} e⁻</span>
+              </div>
+            )}
+
+            {/* Feedback for screen readers; errors interrupt, everything else waits its turn */}
+            <div className="sr-only" role="status" aria-live="polite">{feedback && feedback.type !== 'error' ? feedback.message : ''}</div>
+            <div className="sr-only" role="alert" aria-live="assertive">{feedback?.type === 'error' ? feedback.message : ''}</div>
+
             {/* Feedback Toast */}
             {feedback && (
-              <div className={`absolute bottom-8 left-1/2 -translate-x-1/2 w-max max-w-[90%] px-6 py-4 rounded-xl shadow-2xl backdrop-blur-md border animate-in slide-in-from-bottom-5 fade-in duration-300 z-20 flex items-center gap-3
+              <div aria-hidden="true" className={`absolute bottom-8 left-1/2 -translate-x-1/2 w-max max-w-[90%] px-6 py-4 rounded-xl shadow-2xl backdrop-blur-md border animate-in slide-in-from-bottom-5 fade-in duration-300 z-20 flex items-center gap-3
                 ${feedback.type === 'success' ? 'bg-emerald-900/80 border-emerald-700/50 text-emerald-100' : 
                   feedback.type === 'error' ? 'bg-rose-900/80 border-rose-700/50 text-rose-100' : 
                   'bg-slate-800/90 border-slate-600/50 text-slate-200'}`}
@@ -346,14 +814,16 @@ const App: React.FC = () => {
         {/* Right Panel: Controls */}
         <div className="lg:col-span-3 space-y-6">
           <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl">
-            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4">Geometry Shape</h3>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4">Electron Geometry</h3>
             
             <div className="space-y-2.5">
-              {Object.values(HybridizationType).map((hyb) => (
+              {Object.values(HybridizationType).map((hyb, index) => (
                 <button
                   key={hyb}
                   onClick={() => handleHybridizationSelect(hyb)}
                   disabled={hasSubmitted}
+                  aria-pressed={selectedHybridization === hyb}
+                  aria-keyshortcuts={String(index + 1)}
                   className={`w-full text-left px-4 py-3 rounded-lg border transition-all duration-200 flex items-center justify-between group
                     ${selectedHybridization === hyb 
                       ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-900/50' 
@@ -362,21 +832,56 @@ const App: React.FC = () => {
                   `}
                 >
                   <span className="font-medium">{GEOMETRY_NAMES[hyb]}</span>
-                  {selectedHybridization === hyb && <div className="w-2 h-2 rounded-full bg-white animate-pulse" />}
+                  {selectedHybridization === hyb
+                    ? <div className="w-2 h-2 rounded-full bg-white animate-pulse" />
+                    : <kbd className="text-[10px] font-mono text-slate-600" aria-hidden="true">{index + 1}</kbd>}
                 </button>
               ))}
             </div>
 
+            <div className="mt-6">
+              <DomainPalette
+                entries={palette}
+                activeDomain={activeDomain}
+                disabled={hasSubmitted || !selectedHybridization}
+                onSelect={handleDomainSelect}
+                onDragStart={(domain, event) => handleDragStart(domain, undefined, event)}
+              />
+            </div>
+
+            <div className="mt-6">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Bond Order</h3>
+              <div className="flex gap-2">
+                {[1, 2, 3].map((bondOrder) => (
+                  <button
+                    key={bondOrder}
+                    onClick={() => handleBondOrderSelect(bondOrder)}
+                    disabled={hasSubmitted}
+                    className={`flex-1 py-2 rounded-lg border font-mono font-bold transition-all duration-200
+                      ${activeBondOrder === bondOrder
+                        ? 'bg-emerald-600 border-emerald-500 text-white shadow-lg shadow-emerald-900/40'
+                        : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200'}
+                      ${hasSubmitted ? 'opacity-50 cursor-not-allowed' : ''}
+                    `}
+                  >
+                    {BOND_ORDER_SYMBOLS[bondOrder - 1]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="mt-8 pt-6 border-t border-slate-800 space-y-3">
               {!hasSubmitted ? (
                 <>
                   <button 
                     onClick={handleCheck}
                     disabled={!selectedHybridization}
+                    aria-keyshortcuts="V"
                     className="w-full py-3.5 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg shadow-emerald-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
                     Verify Structure
                     <CheckCircle2 className="w-4 h-4" />
+                    <kbd className="text-[10px] font-mono text-emerald-200/70" aria-hidden="true">V</kbd>
                   </button>
                   
                   <button 
@@ -387,11 +892,11 @@ const App: React.FC = () => {
                     <RotateCcw className="w-4 h-4" />
                   </button>
                 </>
-              ) : (
+              ) : hasSubmittedPolarity && (
                 <button 
                   onClick={handleNext}
                   className={`w-full py-3.5 text-white font-bold rounded-xl shadow-lg transition-all flex items-center justify-center gap-2
-                    ${currentIndex < MOLECULES.length - 1 ? 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-900/20' : 'bg-slate-700'}
+                    ${!isLastMolecule ? 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-900/20' : 'bg-slate-700'}
                   `}
                 >
                   {isLastMolecule ? "Finish Protocol" : "Next Sample"}
@@ -401,6 +906,53 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {hasSubmitted && (
+            <ChoiceQuestion
+              title="Molecular Shape"
+              prompt={`Ignoring the lone pairs, what shape do the atoms of ${molecule.formula} form?`}
+              options={MOLECULAR_SHAPE_OPTIONS}
+              selected={selectedShape}
+              onSelect={handleShapeSelect}
+              onSubmit={handleShapeCheck}
+              submitLabel="Confirm Shape"
+              isSubmitted={hasSubmittedShape}
+              correctOption={getMolecularShape(molecule)}
+            />
+          )}
+
+          {hasSubmittedShape && hasAngleRound && (
+            <AngleEstimate
+              prompt={`Estimate the smallest bond angle in ${molecule.formula}.`}
+              value={angleEstimate}
+              onChange={setAngleEstimate}
+              onSubmit={handleAngleCheck}
+              onSkip={handleAngleSkip}
+              isDone={hasFinishedAngle}
+            />
+          )}
+
+          {(hasFinishedAngle || (hasSubmittedShape && !hasAngleRound)) && (
+            <ChoiceQuestion
+              title="Polarity"
+              prompt={`Do the bond dipoles of ${molecule.formula} cancel out?`}
+              options={['Polar', 'Nonpolar']}
+              selected={selectedPolarity}
+              onSelect={handlePolaritySelect}
+              onSubmit={handlePolarityCheck}
+              submitLabel="Confirm Polarity"
+              isSubmitted={hasSubmittedPolarity}
+              correctOption={isMoleculePolar(molecule) ? 'Polar' : 'Nonpolar'}
+            />
+          )}
+
+          {selectedHybridization && (
+            <ExportMenu
+              molecule={molecule}
+              slots={currentSlots}
+              getStructureSvg={() => structureView.current?.querySelector<SVGSVGElement>('svg[data-structure-view]') ?? null}
+            />
+          )}
+
           <div className="p-4 rounded-xl border border-slate-800 bg-slate-900/50">
              <div className="flex items-start gap-3">
                <Info className="w-5 h-5 text-indigo-400 mt-0.5" />
@@ -408,9 +960,18 @@ const App: React.FC = () => {
                  <p className="text-sm font-medium text-slate-300">Quick Guide</p>
                  <ul className="text-xs text-slate-500 space-y-1 list-disc pl-4">
                    <li>Select a Geometry Shape from the list.</li>
-                   <li>Click orbital lobes to cycle: Bond → Lone Pair → Empty.</li>
+                   <li>Drag bonds and lone pairs from the palette onto orbital lobes, or select one and click a lobe.</li>
+                   <li>Drag a placed lobe onto another to swap them, or off the molecule to return it.</li>
+                   <li>Drag the space around the molecule to rotate it in 3D.</li>
+                   <li>Pick a bond order first to place double or triple bonds.</li>
                    <li>Verify your structure when ready.</li>
-                   <li><strong>Warning:</strong> You only get one chance!</li>
+                   <li>Keyboard: 1–5 pick a geometry, Tab and the arrow keys move between lobes, B / L / E set them, V verifies.</li>
+                   <li>Then name the molecular shape formed by the atoms.</li>
+                   <li>Optionally estimate the bond angle for bonus points.</li>
+                   <li>Finally decide whether the molecule is polar.</li>
+                   {modeConfig.allowRetries
+                     ? <li>Wrong answers can be retried, but each retry and hint costs marks.</li>
+                     : <li><strong>Warning:</strong> You only get one chance!</li>}
                  </ul>
                </div>
              </div>
@@ -418,6 +979,17 @@ const App: React.FC = () => {
         </div>
 
       </main>
+
+      {/* Domain following the pointer while dragging */}
+      {dragGhost && (
+        <div
+          className="fixed z-[90] pointer-events-none -translate-x-1/2 -translate-y-1/2 opacity-90 drop-shadow-lg"
+          style={{ left: dragGhost.x, top: dragGhost.y }}
+          aria-hidden="true"
+        >
+          <DomainTokenIcon domain={dragGhost.domain} />
+        </div>
+      )}
     </div>
   );
 };
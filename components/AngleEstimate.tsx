@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle2, SkipForward } from 'lucide-react';
+
+interface AngleEstimateProps {
+  prompt: string;
+  value: number;
+  onChange: (value: number) => void;
+  onSubmit: () => void;
+  onSkip: () => void;
+  isDone: boolean;
+}
+
+const MIN_ANGLE = 60;
+const MAX_ANGLE = 180;
+
+const AngleEstimate: React.FC<AngleEstimateProps> = ({
+  prompt,
+  value,
+  onChange,
+  onSubmit,
+  onSkip,
+  isDone
+}) => {
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Bond Angle</h3>
+        <span className="text-[10px] font-bold text-slate-600 uppercase tracking-wider">Optional</span>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">{prompt}</p>
+
+      <div className="flex items-center gap-3">
+        <input
+          type="range"
+          min={MIN_ANGLE}
+          max={MAX_ANGLE}
+          step={0.5}
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          disabled={isDone}
+          className="flex-1 accent-indigo-500 disabled:opacity-50"
+        />
+        <span className="font-mono text-lg font-bold text-indigo-300 w-16 text-right">{value}°</span>
+      </div>
+
+      {!isDone && (
+        <div className="mt-4 grid grid-cols-2 gap-2">
+          <button
+            onClick={onSkip}
+            className="py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+          >
+            Skip
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onSubmit}
+            className="py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg shadow-emerald-900/20 transition-all flex items-center justify-center gap-2"
+          >
+            Estimate
+            <CheckCircle2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AngleEstimate;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AudioSettings, AudioVolumeKey, AudioMuteKey } from '../types';
+import { audioService } from '../services/audioService';
+import { Volume2, VolumeX, Music, Sparkles } from 'lucide-react';
+
+// Each channel's slider and mute toggle, with the audioService setters that apply them
+const CHANNELS: {
+  label: string;
+  volumeKey: AudioVolumeKey;
+  muteKey: AudioMuteKey;
+  setVolume: (volume: number) => void;
+  setMuted: (mute: boolean) => void;
+  Icon: React.FC<{ className?: string }>;
+}[] = [
+  { label: 'Master', volumeKey: 'masterVolume', muteKey: 'masterMuted', setVolume: v => audioService.setMasterVolume(v), setMuted: m => audioService.setMute(m), Icon: Volume2 },
+  { label: 'Music', volumeKey: 'musicVolume', muteKey: 'musicMuted', setVolume: v => audioService.setMusicVolume(v), setMuted: m => audioService.setMusicMuted(m), Icon: Music },
+  { label: 'Effects', volumeKey: 'sfxVolume', muteKey: 'sfxMuted', setVolume: v => audioService.setSfxVolume(v), setMuted: m => audioService.setSfxMuted(m), Icon: Sparkles }
+];
+
+const AudioSettingsPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<AudioSettings>(audioService.getSettings());
+
+  const isSilent = settings.masterMuted || settings.masterVolume === 0;
+
+  const update = (apply: () => void) => {
+    apply();
+    setSettings(audioService.getSettings());
+  };
+
+  return (
+    <div className="relative" onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white"
+        title="Audio settings"
+      >
+        {isSilent ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Audio settings"
+          className="absolute right-0 mt-2 w-72 p-4 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl space-y-3 z-50"
+        >
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Audio</p>
+          {CHANNELS.map(({ label, volumeKey, muteKey, setVolume, setMuted, Icon }) => {
+            const isMuted = settings[muteKey];
+            const percent = Math.round(settings[volumeKey] * 100);
+            return (
+              <div key={label} className="flex items-center gap-3">
+                <button
+                  onClick={() => update(() => setMuted(!isMuted))}
+                  aria-pressed={isMuted}
+                  className={`p-1.5 rounded-lg transition-colors ${isMuted ? 'text-rose-400 bg-rose-900/20' : 'text-indigo-300 hover:bg-slate-800'}`}
+                  title={isMuted ? `Unmute ${label.toLowerCase()}` : `Mute ${label.toLowerCase()}`}
+                >
+                  {isMuted ? <VolumeX className="w-4 h-4" /> : <Icon className="w-4 h-4" />}
+                </button>
+                <label className="flex-1">
+                  <span className="block text-xs text-slate-400 mb-1">{label}</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={percent}
+                    onChange={(e) => update(() => setVolume(parseInt(e.target.value, 10) / 100))}
+                    className={`w-full accent-indigo-500 ${isMuted ? 'opacity-40' : ''}`}
+                    aria-label={`${label} volume`}
+                  />
+                </label>
+                <span className="w-10 text-right font-mono text-xs text-slate-400">{percent}%</span>
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-slate-600">Settings are saved in this browser.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
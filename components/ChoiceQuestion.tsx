@@ -0,0 +1,75 @@
+import React from 'react';
+import { CheckCircle2 } from 'lucide-react';
+
+interface ChoiceQuestionProps {
+  title: string;
+  prompt: string;
+  options: string[];
+  selected: string | null;
+  onSelect: (option: string) => void;
+  onSubmit: () => void;
+  submitLabel: string;
+  isSubmitted: boolean;
+  correctOption?: string; // Highlighted once the answer is submitted
+}
+
+const ChoiceQuestion: React.FC<ChoiceQuestionProps> = ({
+  title,
+  prompt,
+  options,
+  selected,
+  onSelect,
+  onSubmit,
+  submitLabel,
+  isSubmitted,
+  correctOption
+}) => {
+  const getOptionStyle = (option: string) => {
+    if (isSubmitted && option === correctOption) {
+      return 'bg-emerald-900/40 border-emerald-600 text-emerald-200';
+    }
+    if (isSubmitted && option === selected) {
+      return 'bg-rose-900/40 border-rose-700 text-rose-200';
+    }
+    if (option === selected) {
+      return 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-900/50';
+    }
+    return 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200';
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl animate-in fade-in duration-300">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{title}</h3>
+      <p className="text-sm text-slate-400 mb-4">{prompt}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {options.map((option) => (
+          <button
+            key={option}
+            onClick={() => onSelect(option)}
+            disabled={isSubmitted}
+            className={`text-left px-3 py-2.5 rounded-lg border text-sm font-medium transition-all duration-200
+              ${getOptionStyle(option)}
+              ${isSubmitted ? 'cursor-not-allowed' : ''}
+            `}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {!isSubmitted && (
+        <button
+          onClick={onSubmit}
+          disabled={!selected}
+          className="mt-4 w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg shadow-emerald-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {submitLabel}
+          <CheckCircle2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChoiceQuestion;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { DomainToken, PaletteEntry, SlotType } from '../types';
+import { isSameDomain } from '../services/paletteService';
+
+interface DomainPaletteProps {
+  entries: PaletteEntry[];
+  activeDomain: DomainToken | null; // Placed by a click or key press on a lobe
+  disabled: boolean;
+  onSelect: (domain: DomainToken) => void;
+  onDragStart: (domain: DomainToken, event: React.PointerEvent) => void;
+}
+
+export const describeDomain = (domain: DomainToken) => domain.type === SlotType.BOND ? `Bond to ${domain.ligand}` : 'Lone pair';
+
+// The token drawn in the palette and under the pointer while dragging
+export const DomainTokenIcon: React.FC<{ domain: DomainToken }> = ({ domain }) => (
+  domain.type === SlotType.BOND ? (
+    <span className="w-8 h-8 rounded-full bg-slate-200 border-2 border-emerald-600 flex items-center justify-center font-mono font-bold text-xs text-slate-900">
+      {domain.ligand}
+    </span>
+  ) : (
+    <span className="w-8 h-8 rounded-full bg-amber-500 border-2 border-amber-600 flex items-center justify-center gap-1">
+      <span className="w-1.5 h-1.5 rounded-full bg-white" />
+      <span className="w-1.5 h-1.5 rounded-full bg-white" />
+    </span>
+  )
+);
+
+const DomainPalette: React.FC<DomainPaletteProps> = ({ entries, activeDomain, disabled, onSelect, onDragStart }) => {
+  const remaining = entries.reduce((total, entry) => total + entry.remaining, 0);
+
+  return (
+    <div>
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Electron Domains</h3>
+      <div className="grid grid-cols-2 gap-2" role="listbox" aria-label="Electron domains to place">
+        {entries.map(entry => {
+          const isActive = !!activeDomain && isSameDomain(entry.domain, activeDomain);
+          const isEmpty = entry.remaining === 0;
+          return (
+            <button
+              key={entry.domain.ligand ?? 'lone-pair'}
+              role="option"
+              aria-selected={isActive}
+              aria-label={`${describeDomain(entry.domain)}, ${entry.remaining} of ${entry.total} left`}
+              onClick={() => onSelect(entry.domain)}
+              onPointerDown={(event: React.PointerEvent) => !isEmpty && onDragStart(entry.domain, event)}
+              disabled={disabled || isEmpty}
+              style={{ touchAction: 'none' }}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all duration-200 select-none
+                ${isActive && !isEmpty
+                  ? 'bg-emerald-600/20 border-emerald-500 text-white'
+                  : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200'}
+                ${disabled || isEmpty ? 'opacity-40 cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'}
+              `}
+            >
+              <DomainTokenIcon domain={entry.domain} />
+              <span className="text-xs font-medium">{entry.domain.type === SlotType.BOND ? 'Bond' : 'Lone Pair'}</span>
+              <span className="ml-auto font-mono text-sm font-bold">×{entry.remaining}</span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        {remaining > 0
+          ? `${remaining} domain${remaining === 1 ? '' : 's'} left to place. Drag onto a lobe, or select and click a lobe.`
+          : 'Every domain is placed. Drag lobes to swap them.'}
+      </p>
+    </div>
+  );
+};
+
+export default DomainPalette;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { MoleculeDef, OrbitalSlot } from '../types';
+import { buildXyz, buildMolFile, getExportFileName, serializeStructureSvg, renderSvgToPng } from '../services/exportService';
+import { downloadFile } from '../services/fileService';
+import { Download, FileText, Image } from 'lucide-react';
+
+interface ExportMenuProps {
+  molecule: MoleculeDef;
+  slots: OrbitalSlot[];
+  getStructureSvg: () => SVGSVGElement | null; // The visualizer's drawing as currently rotated
+}
+
+type ExportFormat = 'xyz' | 'mol' | 'svg' | 'png';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string; isImage: boolean }[] = [
+  { format: 'xyz', label: 'XYZ', description: 'Coordinates for chemistry viewers', isImage: false },
+  { format: 'mol', label: 'MOL', description: 'MDL molfile with bonds and charges', isImage: false },
+  { format: 'svg', label: 'SVG', description: 'Scalable image for reports', isImage: true },
+  { format: 'png', label: 'PNG', description: 'Picture at 1200 × 1200', isImage: true }
+];
+
+const IMAGE_SIZE = 1200;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ molecule, slots, getStructureSvg }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setError(null);
+    try {
+      if (format === 'xyz') {
+        downloadFile(getExportFileName(molecule, 'xyz'), buildXyz(molecule, slots), 'chemical/x-xyz');
+      } else if (format === 'mol') {
+        downloadFile(getExportFileName(molecule, 'mol'), buildMolFile(molecule, slots), 'chemical/x-mdl-molfile');
+      } else {
+        const svg = getStructureSvg();
+        if (!svg) throw new Error('There is no structure on screen to capture.');
+        const svgText = serializeStructureSvg(svg, IMAGE_SIZE);
+        if (format === 'svg') {
+          downloadFile(getExportFileName(molecule, 'svg'), svgText, 'image/svg+xml');
+        } else {
+          downloadFile(getExportFileName(molecule, 'png'), await renderSvgToPng(svgText, IMAGE_SIZE), 'image/png');
+        }
+      }
+      setIsOpen(false);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 shadow-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        className="w-full flex items-center justify-between text-xs font-bold text-slate-500 uppercase tracking-wider hover:text-slate-300 transition-colors"
+      >
+        Export Structure
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-1.5" role="menu">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => handleExport(option.format)}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-950 border border-slate-800 text-left hover:border-slate-600 transition-colors"
+            >
+              {option.isImage ? <Image className="w-4 h-4 text-indigo-400" /> : <FileText className="w-4 h-4 text-emerald-400" />}
+              <span className="font-mono font-bold text-sm text-slate-200 w-9">{option.label}</span>
+              <span className="text-xs text-slate-500">{option.description}</span>
+            </button>
+          ))}
+          <p className="text-[11px] text-slate-600 pt-1">Lone pairs are LP atoms in MOL files and a comment in XYZ files.</p>
+          {error && <p className="text-xs text-rose-400" role="alert">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,620 @@
+import React, { useMemo, useState } from 'react';
+import { LevelPack, MoleculeDef, LigandDef, GeometryRules, OrbitalPositionType, SlotType } from '../types';
+import { GEOMETRY_NAMES, LEVEL_PACK_FORMAT_VERSION } from '../constants';
+import OrbitalVisualizer from './OrbitalVisualizer';
+import {
+  buildMoleculeDef,
+  computeFormalCharges,
+  formatFormula,
+  hasUnseparatedCharge,
+  parseFormula,
+  validateMoleculeDef
+} from '../services/lewisService';
+import { buildReferenceSlots, suggestGeometryRules } from '../services/structureService';
+import { getMolecularShape } from '../services/validationService';
+import {
+  validateLevelPack,
+  serializeLevelPack,
+  loadLevelPackFromFile,
+  LevelPackError
+} from '../services/levelPackService';
+import { downloadFile } from '../services/fileService';
+import {
+  parseMoleculeInput,
+  findCenters,
+  buildCenterMolecule,
+  ImportedStructure,
+  ImportCenter
+} from '../services/moleculeImportService';
+import {
+  PenTool,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Save,
+  Download,
+  Play,
+  FileUp,
+  X,
+  Wand2,
+  AlertCircle,
+  CheckCircle2,
+  FlaskConical
+} from 'lucide-react';
+
+interface LevelEditorProps {
+  initialPack: LevelPack;
+  onClose: () => void;
+  onPlay: (pack: LevelPack) => void;
+}
+
+// The fields a teacher types; everything else is derived from the electron count
+interface Draft {
+  formula: string;
+  name: string;
+  centralAtom: string;
+  ligands: LigandDef[];
+  description: string;
+  geometryRules: GeometryRules;
+}
+
+const EMPTY_DRAFT: Draft = {
+  formula: '',
+  name: '',
+  centralAtom: '',
+  ligands: [{ atom: '', count: 1 }],
+  description: '',
+  geometryRules: {}
+};
+
+const toDraft = (molecule: MoleculeDef): Draft => ({
+  formula: molecule.formula,
+  name: molecule.name,
+  centralAtom: molecule.centralAtom,
+  ligands: molecule.ligands.map(l => ({ ...l })),
+  description: molecule.description,
+  geometryRules: { ...molecule.geometryRules }
+});
+
+// Builds the MoleculeDef a draft describes and lists everything wrong with it
+const compileDraft = (draft: Draft): { molecule: MoleculeDef | null; issues: string[] } => {
+  const issues: string[] = [];
+  if (!draft.name.trim()) issues.push('Name is required.');
+  if (!draft.description.trim()) issues.push('Description is required.');
+
+  if (hasUnseparatedCharge(draft.formula)) {
+    issues.push(`Put a space or ^ before a charge above 1, e.g. "SO4 2-"; "${draft.formula.trim()}" reads as ${formatFormula(draft.formula)}.`);
+  }
+
+  const formula = formatFormula(draft.formula);
+  let charge = 0;
+  try {
+    charge = parseFormula(formula).charge;
+  } catch (error) {
+    return { molecule: null, issues: [...issues, (error as Error).message] };
+  }
+
+  const ligands = draft.ligands
+    .filter(l => l.atom.trim())
+    .map(l => ({
+      atom: l.atom.trim(),
+      count: l.count,
+      ...((l.bondOrder ?? 1) > 1 ? { bondOrder: l.bondOrder } : {}),
+      ...(l.externalBonds ? { externalBonds: l.externalBonds } : {})
+    }));
+  const hasRules = Object.values(draft.geometryRules).some(value => value !== undefined && value !== false);
+
+  let molecule: MoleculeDef;
+  try {
+    molecule = buildMoleculeDef({
+      formula,
+      name: draft.name.trim(),
+      centralAtom: draft.centralAtom.trim(),
+      ligands,
+      ...(charge !== 0 ? { charge } : {}),
+      description: draft.description.trim(),
+      ...(hasRules ? { geometryRules: draft.geometryRules } : {})
+    });
+  } catch (error) {
+    return { molecule: null, issues: [...issues, (error as Error).message] };
+  }
+
+  issues.push(...validateMoleculeDef(molecule));
+  if (issues.length === 0 && !buildReferenceSlots(molecule)) {
+    issues.push('No arrangement of the domains satisfies the placement rules.');
+  }
+  return { molecule, issues };
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-950 border border-slate-800 rounded-lg text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5';
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ initialPack, onClose, onPlay }) => {
+  const [meta, setMeta] = useState({
+    id: initialPack.id,
+    title: initialPack.title,
+    author: initialPack.author ?? '',
+    description: initialPack.description ?? ''
+  });
+  const [molecules, setMolecules] = useState<MoleculeDef[]>(initialPack.molecules);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(0);
+  const [draft, setDraft] = useState<Draft>(toDraft(initialPack.molecules[0]));
+  const [packErrors, setPackErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importedStructure, setImportedStructure] = useState<ImportedStructure | null>(null);
+  const [importCenters, setImportCenters] = useState<ImportCenter[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const { molecule, issues } = useMemo(() => compileDraft(draft), [draft]);
+  const previewSlots = useMemo(() => (molecule && issues.length === 0 ? buildReferenceSlots(molecule) : null), [molecule, issues]);
+  const ligandAtoms = Array.from(new Set(draft.ligands.map(l => l.atom.trim()).filter(Boolean)));
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setNotice(null);
+  };
+
+  const updateLigand = (index: number, changes: Partial<LigandDef>) => {
+    updateDraft({ ligands: draft.ligands.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+  };
+
+  const updateRules = (changes: Partial<GeometryRules>) => {
+    updateDraft({ geometryRules: { ...draft.geometryRules, ...changes } });
+  };
+
+  const selectMolecule = (index: number) => {
+    setSelectedIndex(index);
+    setDraft(toDraft(molecules[index]));
+    setNotice(null);
+  };
+
+  const handleNew = () => {
+    setSelectedIndex(null);
+    setDraft({ ...EMPTY_DRAFT, ligands: [{ atom: '', count: 1 }] });
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    if (!molecule || issues.length > 0) return;
+    if (selectedIndex === null) {
+      setMolecules(prev => [...prev, molecule]);
+      setSelectedIndex(molecules.length);
+    } else {
+      setMolecules(prev => prev.map((m, i) => (i === selectedIndex ? molecule : m)));
+    }
+    setDraft(toDraft(molecule));
+    setNotice(`${molecule.formula} saved.`);
+  };
+
+  const handleDelete = (index: number) => {
+    const next = molecules.filter((_, i) => i !== index);
+    setMolecules(next);
+    if (next.length === 0) handleNew();
+    else selectMolecule(Math.min(index, next.length - 1));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= molecules.length) return;
+    const next = [...molecules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setMolecules(next);
+    if (selectedIndex === index) setSelectedIndex(target);
+    else if (selectedIndex === target) setSelectedIndex(index);
+  };
+
+  const handleSuggestRules = () => {
+    if (molecule) updateDraft({ geometryRules: suggestGeometryRules(molecule) ?? {} });
+  };
+
+  // Loads one center of the imported structure as a new, unsaved entry
+  const loadImportedCenter = (structure: ImportedStructure, center: ImportCenter, isOnlyCenter: boolean) => {
+    try {
+      const imported = buildCenterMolecule(structure, center.index, isOnlyCenter);
+      setSelectedIndex(null);
+      setDraft(toDraft(imported));
+      setNotice(`${imported.formula} imported; review it, then add it to the pack.`);
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  // A structure with several centers waits for the teacher to pick the one to quiz on
+  const readImport = (text: string) => {
+    setImportError(null);
+    setImportCenters([]);
+    setImportedStructure(null);
+    try {
+      const structure = parseMoleculeInput(text);
+      const centers = findCenters(structure);
+      if (centers.length === 0) throw new Error('No atom to quiz on: a center needs two or more neighbours, each able to complete an octet.');
+      if (centers.length === 1) {
+        loadImportedCenter(structure, centers[0], true);
+      } else {
+        setImportedStructure(structure);
+        setImportCenters(centers);
+      }
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setImportText(text);
+    readImport(text);
+  };
+
+  // Runs the same checks a loaded pack goes through
+  const buildPack = (): LevelPack | null => {
+    const { pack, errors } = validateLevelPack({
+      formatVersion: LEVEL_PACK_FORMAT_VERSION,
+      id: meta.id.trim(),
+      title: meta.title.trim(),
+      ...(meta.author.trim() ? { author: meta.author.trim() } : {}),
+      ...(meta.description.trim() ? { description: meta.description.trim() } : {}),
+      molecules
+    });
+    setPackErrors(errors);
+    return pack;
+  };
+
+  const handleExport = () => {
+    const pack = buildPack();
+    if (pack) downloadFile(`${pack.id}.json`, serializeLevelPack(pack), 'application/json');
+  };
+
+  const handlePlay = () => {
+    const pack = buildPack();
+    if (pack) onPlay(pack);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = await loadLevelPackFromFile(file);
+      setMeta({ id: pack.id, title: pack.title, author: pack.author ?? '', description: pack.description ?? '' });
+      setMolecules(pack.molecules);
+      setPackErrors([]);
+      setSelectedIndex(0);
+      setDraft(toDraft(pack.molecules[0]));
+    } catch (error) {
+      setPackErrors(error instanceof LevelPackError ? error.errors : [(error as Error).message]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-slate-950 overflow-y-auto animate-in fade-in duration-300">
+      <header className="border-b border-slate-800 bg-slate-900/80 backdrop-blur-md sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <PenTool className="w-6 h-6 text-indigo-400" />
+            <span className="font-bold text-lg tracking-tight">Level <span className="text-indigo-500">Editor</span></span>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-lg transition-all flex items-center gap-2 cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Open Pack
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={handleExport} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-lg transition-all flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Export Pack
+            </button>
+            <button onClick={handlePlay} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg transition-all flex items-center gap-2">
+              <Play className="w-4 h-4" />
+              Play Pack
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white" title="Close editor">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto w-full p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+        {/* Pack metadata and molecule list */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-5 space-y-3">
+            <div>
+              <label className={labelClass}>Pack Title</label>
+              <input className={inputClass} value={meta.title} onChange={(e) => setMeta({ ...meta, title: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Pack ID</label>
+              <input className={`${inputClass} font-mono`} value={meta.id} onChange={(e) => setMeta({ ...meta, id: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Author</label>
+              <input className={inputClass} value={meta.author} onChange={(e) => setMeta({ ...meta, author: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea className={`${inputClass} resize-none`} rows={2} value={meta.description} onChange={(e) => setMeta({ ...meta, description: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-5">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Samples ({molecules.length})</h3>
+              <button onClick={handleNew} className="p-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white" title="New molecule">
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+            <ul className="space-y-1.5 max-h-[420px] overflow-y-auto">
+              {molecules.map((m, i) => (
+                <li
+                  key={`${m.formula}-${i}`}
+                  className={`flex items-center gap-1 px-2 py-1.5 rounded-lg border transition-all
+                    ${selectedIndex === i ? 'bg-indigo-900/40 border-indigo-600/60' : 'bg-slate-950 border-slate-800 hover:border-slate-600'}`}
+                >
+                  <button onClick={() => selectMolecule(i)} className="flex-1 text-left font-mono font-bold text-sm text-slate-200">
+                    {m.formula}
+                  </button>
+                  <button onClick={() => handleMove(i, -1)} className="p-1 text-slate-500 hover:text-white" title="Move up"><ArrowUp className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => handleMove(i, 1)} className="p-1 text-slate-500 hover:text-white" title="Move down"><ArrowDown className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => handleDelete(i)} className="p-1 text-slate-500 hover:text-rose-400" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {packErrors.length > 0 && (
+            <div className="p-4 bg-rose-900/20 border border-rose-800/40 rounded-xl max-h-48 overflow-y-auto">
+              <p className="text-sm font-bold text-rose-200 mb-2">Pack not exported</p>
+              <ul className="text-xs text-rose-200/80 space-y-1 list-disc pl-5 font-mono">
+                {packErrors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Entry form */}
+        <div className="lg:col-span-5 bg-slate-900 border border-slate-800 rounded-2xl p-6 space-y-4">
+          <div className="p-4 bg-slate-950 rounded-xl border border-slate-800 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Import from SMILES or MOL</span>
+              <label className="text-xs font-bold text-indigo-300 hover:text-indigo-200 flex items-center gap-1 cursor-pointer">
+                <FileUp className="w-3.5 h-3.5" /> Open file
+                <input type="file" accept=".mol,.sdf,chemical/x-mdl-molfile" className="hidden" onChange={handleImportFile} />
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <textarea
+                className={`${inputClass} font-mono resize-none`}
+                rows={importText.includes('\n') ? 4 : 1}
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder="FS(F)(F)F or a pasted molfile"
+              />
+              <button
+                onClick={() => readImport(importText)}
+                disabled={!importText.trim()}
+                className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-lg transition-all flex items-center gap-2 disabled:opacity-40 self-start"
+              >
+                <FlaskConical className="w-4 h-4" /> Read
+              </button>
+            </div>
+            {importCenters.length > 0 && importedStructure && (
+              <div>
+                <p className="text-xs text-slate-400 mb-1.5">This structure has several centers. Choose the one to quiz on:</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {importCenters.map(center => (
+                    <button
+                      key={center.index}
+                      onClick={() => loadImportedCenter(importedStructure, center, false)}
+                      className="px-2 py-1 bg-slate-900 border border-slate-700 hover:border-indigo-500 rounded-lg text-xs font-mono text-slate-200"
+                    >
+                      {center.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {importError && <p className="text-xs text-rose-400" role="alert">{importError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Formula</label>
+              <input
+                className={`${inputClass} font-mono`}
+                value={draft.formula}
+                onChange={(e) => updateDraft({ formula: e.target.value })}
+                onBlur={() => updateDraft({ formula: formatFormula(draft.formula) })}
+                placeholder="ClO3- or SO4 2-"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Shown as <span className="font-mono text-indigo-300">{formatFormula(draft.formula) || '—'}</span>. Charges above 1 need a space or ^, as in SO4 2-.
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>Central Atom</label>
+              <input className={`${inputClass} font-mono`} value={draft.centralAtom} onChange={(e) => updateDraft({ centralAtom: e.target.value })} placeholder="Cl" />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input className={inputClass} value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Chlorate Ion" />
+          </div>
+
+          <div>
+            <label className={labelClass}>Ligands</label>
+            <div className="space-y-2">
+              {draft.ligands.map((ligand, i) => (
+                <div key={i} className="flex gap-2">
+                  <input className={`${inputClass} font-mono`} value={ligand.atom} onChange={(e) => updateLigand(i, { atom: e.target.value })} placeholder="Atom" />
+                  <input
+                    type="number"
+                    min={1}
+                    className={`${inputClass} w-20`}
+                    value={ligand.count}
+                    onChange={(e) => updateLigand(i, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  />
+                  <select
+                    className={`${inputClass} w-28`}
+                    value={ligand.bondOrder ?? 1}
+                    onChange={(e) => updateLigand(i, { bondOrder: parseInt(e.target.value, 10) })}
+                  >
+                    <option value={1}>Single</option>
+                    <option value={2}>Double</option>
+                    <option value={3}>Triple</option>
+                  </select>
+                  {ligand.externalBonds ? (
+                    <button
+                      onClick={() => updateLigand(i, { externalBonds: undefined })}
+                      className="px-2 text-xs font-mono text-amber-300 bg-amber-900/20 border border-amber-800/40 rounded-lg whitespace-nowrap"
+                      title="Bonds this ligand forms beyond the central atom; click to clear"
+                    >
+                      +{ligand.externalBonds}
+                    </button>
+                  ) : null}
+                  <button
+                    onClick={() => updateDraft({ ligands: draft.ligands.filter((_, j) => j !== i) })}
+                    disabled={draft.ligands.length === 1}
+                    className="p-2 text-slate-500 hover:text-rose-400 disabled:opacity-30"
+                    title="Remove ligand"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDraft({ ligands: [...draft.ligands, { atom: '', count: 1 }] })}
+              className="mt-2 text-xs font-bold text-indigo-300 hover:text-indigo-200 flex items-center gap-1"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add ligand
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea className={`${inputClass} resize-none`} rows={2} value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} />
+          </div>
+
+          <div className="p-4 bg-slate-950 rounded-xl border border-slate-800 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Placement Rules</span>
+              <button onClick={handleSuggestRules} disabled={!molecule} className="text-xs font-bold text-indigo-300 hover:text-indigo-200 flex items-center gap-1 disabled:opacity-40">
+                <Wand2 className="w-3.5 h-3.5" /> Suggest
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Lone pairs must be</label>
+                <select
+                  className={inputClass}
+                  value={draft.geometryRules.lonePairsMustBe ?? ''}
+                  onChange={(e) => updateRules({ lonePairsMustBe: (e.target.value || undefined) as OrbitalPositionType | undefined })}
+                >
+                  <option value="">Anywhere</option>
+                  <option value={OrbitalPositionType.EQUATORIAL}>Equatorial</option>
+                  <option value={OrbitalPositionType.AXIAL}>Axial</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Axial slots hold</label>
+                <select
+                  className={inputClass}
+                  value={draft.geometryRules.axialMustBe ?? ''}
+                  onChange={(e) => updateRules({ axialMustBe: (e.target.value || undefined) as SlotType | undefined })}
+                >
+                  <option value="">Anything</option>
+                  <option value={SlotType.BOND}>Bonds</option>
+                  <option value={SlotType.LONE_PAIR}>Lone pairs</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Axial ligand</label>
+                <select
+                  className={inputClass}
+                  value={draft.geometryRules.axialLigand ?? ''}
+                  onChange={(e) => updateRules({ axialLigand: e.target.value || undefined })}
+                >
+                  <option value="">Any</option>
+                  {ligandAtoms.map(atom => <option key={atom} value={atom}>{atom}</option>)}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-300 mt-5">
+                <input
+                  type="checkbox"
+                  className="accent-indigo-500"
+                  checked={!!draft.geometryRules.lonePairsTrans}
+                  onChange={(e) => updateRules({ lonePairsTrans: e.target.checked || undefined })}
+                />
+                Lone pairs trans
+              </label>
+            </div>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={!molecule || issues.length > 0}
+            className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg shadow-emerald-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {selectedIndex === null ? 'Add to Pack' : 'Save Entry'}
+            <Save className="w-4 h-4" />
+          </button>
+          {notice && <p className="text-sm text-emerald-300 text-center">{notice}</p>}
+        </div>
+
+        {/* Live preview of the answer structure */}
+        <div className="lg:col-span-4 space-y-4">
+          <div className="bg-slate-900/50 border border-slate-800 rounded-3xl relative overflow-hidden flex items-center justify-center p-4 min-h-[340px]">
+            {previewSlots && molecule ? (
+              <OrbitalVisualizer
+                centralAtom={molecule.centralAtom}
+                slots={previewSlots}
+                onSlotClick={() => {}}
+                onSlotSet={() => {}}
+                onSlotDragStart={() => {}}
+                formalCharges={computeFormalCharges(molecule.centralAtom, previewSlots, molecule.ligands)}
+              />
+            ) : (
+              <p className="text-slate-500 text-sm text-center">The answer structure appears here once the entry is consistent.</p>
+            )}
+          </div>
+
+          {molecule && (
+            <div className="p-4 bg-slate-900 rounded-xl border border-slate-800 grid grid-cols-2 gap-2 text-sm">
+              <span className="text-slate-500">Bonding pairs</span><span className="font-mono text-right text-slate-200">{molecule.bondingPairs}</span>
+              <span className="text-slate-500">Lone pairs</span><span className="font-mono text-right text-slate-200">{molecule.lonePairs}</span>
+              <span className="text-slate-500">Steric number</span><span className="font-mono text-right text-slate-200">{molecule.stericNumber}</span>
+              <span className="text-slate-500">Hybridization</span><span className="font-mono text-right text-indigo-300">{molecule.hybridization}</span>
+              <span className="text-slate-500">Geometry</span><span className="text-right text-slate-200">{GEOMETRY_NAMES[molecule.hybridization]}</span>
+              <span className="text-slate-500">Shape</span><span className="text-right text-slate-200">{getMolecularShape(molecule)}</span>
+            </div>
+          )}
+
+          {issues.length > 0 ? (
+            <div className="p-4 bg-amber-900/20 border border-amber-800/30 rounded-xl">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4 text-amber-500" />
+                <p className="text-sm font-bold text-amber-200">Fix before saving</p>
+              </div>
+              <ul className="text-xs text-amber-200/80 space-y-1 list-disc pl-5">
+                {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <div className="p-4 bg-emerald-900/20 border border-emerald-800/30 rounded-xl flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+              <p className="text-sm text-emerald-200">Entry is consistent with its electron count.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -1,44 +1,185 @@
-import React, { useMemo } from 'react';
-import { OrbitalSlot, SlotType, OrbitalPositionType } from '../types';
-import { VISUAL_CONFIG } from '../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { OrbitalSlot, SlotType, FormalCharges, Vec3, ViewCamera } from '../types';
+import { VISUAL_CONFIG, POLARITY_THRESHOLD } from '../constants';
+import { magnitude, scale, slerp } from '../services/vectorMath';
+import { AngleArc } from '../services/bondAngleService';
+import { describeSlot } from '../services/structureService';
+import { projectPoint, rotateToView, clampPitch } from '../services/cameraService';
 
 interface OrbitalVisualizerProps {
   centralAtom: string;
   slots: OrbitalSlot[];
   onSlotClick: (id: number) => void;
-  ligandAtom: string;
+  onSlotSet: (id: number, type: SlotType) => void; // Keyboard: set a slot's content directly
+  onSlotDragStart: (id: number, event: React.PointerEvent) => void; // Pointer down on an occupied lobe
+  dropTargetId?: number | null; // Lobe under a dragged domain
+  angleArcs?: AngleArc[]; // Bond angles to annotate between adjacent bonds
+  formalCharges?: FormalCharges;
+  dipole?: Vec3; // Net dipole of the built structure, drawn as an arrow
 }
 
+// Keys that set a focused slot's content
+const SLOT_KEYS: Record<string, SlotType> = {
+  b: SlotType.BOND,
+  l: SlotType.LONE_PAIR,
+  e: SlotType.EMPTY,
+  Delete: SlotType.EMPTY,
+  Backspace: SlotType.EMPTY
+};
+
+// Shift+arrow keys turn the view
+const ROTATE_KEYS: Record<string, ViewCamera> = {
+  ArrowLeft: { yaw: -1, pitch: 0 },
+  ArrowRight: { yaw: 1, pitch: 0 },
+  ArrowUp: { yaw: 0, pitch: 1 },
+  ArrowDown: { yaw: 0, pitch: -1 }
+};
+
+// Segments of the polyline drawn for each bond angle arc
+const ARC_SEGMENTS = 16;
+
+// Perpendicular offsets of the parallel lines drawn for single, double and triple bonds
+const BOND_LINE_OFFSETS: Record<number, number[]> = {
+  1: [0],
+  2: [-3, 3],
+  3: [-5, 0, 5]
+};
+
+const formatCharge = (charge: number) => {
+  const sign = charge > 0 ? '+' : '−';
+  return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+};
+
+const renderChargeBadge = (charge: number, x: number, y: number) => (
+  <g transform={`translate(${x}, ${y})`} className="pointer-events-none">
+    <circle r="7" fill={charge > 0 ? '#1e3a8a' : '#7f1d1d'} stroke="#0f172a" strokeWidth="1" />
+    <text x="0" y="3" textAnchor="middle" fontSize="8" fill="#f8fafc" className="font-bold font-mono select-none">
+      {formatCharge(charge)}
+    </text>
+  </g>
+);
+
 const OrbitalVisualizer: React.FC<OrbitalVisualizerProps> = ({ 
   centralAtom, 
   slots, 
   onSlotClick,
-  ligandAtom
+  onSlotSet,
+  onSlotDragStart,
+  dropTargetId = null,
+  angleArcs = [],
+  formalCharges,
+  dipole
 }) => {
-  // Sort slots to render "back" slots first for simple z-indexing
-  // Positive tilt means "back" (smaller, darker), Negative/Zero means front
+  const [camera, setCamera] = useState<ViewCamera>(VISUAL_CONFIG.DEFAULT_VIEW);
+  // A press on the background or an empty lobe; it turns the view once the pointer moves
+  const rotation = useRef<{ startX: number; startY: number; from: ViewCamera; moved: boolean } | null>(null);
+  const justRotated = useRef(false);
+
+  // Painter's order: the farthest lobes first
   const sortedSlots = useMemo(() => {
-    return [...slots].sort((a, b) => b.tilt - a.tilt);
+    return slots
+      .map(slot => ({ slot, depth: rotateToView(slot.direction, camera)[2] }))
+      .sort((a, b) => a.depth - b.depth);
+  }, [slots, camera]);
+
+  // Roving tab stop: one slot is tabbable and the arrow keys move between slots in id order
+  const [focusedId, setFocusedId] = useState(0);
+  const [hasFocus, setHasFocus] = useState(false);
+  const slotRefs = useRef<Record<number, SVGGElement | null>>({});
+  const tabStopId = slots.some(s => s.id === focusedId) ? focusedId : slots[0]?.id;
+
+  // Announce a slot's new contents; the focused slot's label alone is not re-read on change
+  const [announcement, setAnnouncement] = useState('');
+  const previousSlots = useRef(slots);
+  useEffect(() => {
+    const changed = slots.find(slot => {
+      const before = previousSlots.current.find(s => s.id === slot.id);
+      return before && (before.type !== slot.type || before.ligand !== slot.ligand || before.bondOrder !== slot.bondOrder);
+    });
+    previousSlots.current = slots;
+    if (changed && hasFocus) setAnnouncement(describeSlot(changed));
   }, [slots]);
 
-  const renderLobe = (slot: OrbitalSlot) => {
-    const angleRad = (slot.angle * Math.PI) / 180;
+  const focusSlot = (id: number) => {
+    setFocusedId(id);
+    slotRefs.current[id]?.focus();
+  };
+
+  const rotateBy = (yaw: number, pitch: number, from: ViewCamera = camera) => {
+    setCamera({ yaw: from.yaw + yaw, pitch: clampPitch(from.pitch + pitch) });
+  };
+
+  const handleSlotKeyDown = (event: React.KeyboardEvent, slot: OrbitalSlot) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    const index = slots.findIndex(s => s.id === slot.id);
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+    if (event.shiftKey && ROTATE_KEYS[key]) rotateBy(ROTATE_KEYS[key].yaw * VISUAL_CONFIG.ROTATE_STEP, ROTATE_KEYS[key].pitch * VISUAL_CONFIG.ROTATE_STEP);
+    else if (key === 'ArrowRight' || key === 'ArrowDown') focusSlot(slots[(index + 1) % slots.length].id);
+    else if (key === 'ArrowLeft' || key === 'ArrowUp') focusSlot(slots[(index - 1 + slots.length) % slots.length].id);
+    else if (key === 'Home') focusSlot(slots[0].id);
+    else if (key === 'End') focusSlot(slots[slots.length - 1].id);
+    else if (key === 'Enter' || key === ' ') onSlotClick(slot.id);
+    else if (SLOT_KEYS[key]) onSlotSet(slot.id, SLOT_KEYS[key]);
+    else return;
+
+    // Keep the page from scrolling and the global shortcuts from seeing the key
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const handleViewPointerDown = (event: React.PointerEvent) => {
+    if (event.button > 0) return;
+    rotation.current = { startX: event.clientX, startY: event.clientY, from: camera, moved: false };
+  };
+
+  const handleViewPointerMove = (event: React.PointerEvent) => {
+    const current = rotation.current;
+    if (!current) return;
+    const dx = event.clientX - current.startX;
+    const dy = event.clientY - current.startY;
+    if (!current.moved) {
+      if (Math.hypot(dx, dy) < VISUAL_CONFIG.DRAG_THRESHOLD) return;
+      // Capture only now, so a plain click still reaches the lobe under the pointer
+      current.moved = true;
+      (event.currentTarget as Element).setPointerCapture(event.pointerId);
+    }
+    rotateBy(dx * VISUAL_CONFIG.ROTATE_SPEED, -dy * VISUAL_CONFIG.ROTATE_SPEED, current.from);
+  };
+
+  const handleViewPointerUp = () => {
+    if (rotation.current?.moved) {
+      justRotated.current = true;
+      setTimeout(() => { justRotated.current = false; }, 0);
+    }
+    rotation.current = null;
+  };
+
+  // Screen position of the point a distance (in screen units) out along a direction
+  const toScreen = (direction: Vec3, distance: number) => projectPoint(scale(direction, distance), camera);
+
+  const renderLobe = ({ slot, depth }: { slot: OrbitalSlot; depth: number }) => {
     const length = VISUAL_CONFIG.LOBE_LENGTH;
-    const width = VISUAL_CONFIG.LOBE_WIDTH * (1 - slot.tilt * 0.3); // Perspective scale
-    
-    const endX = Math.cos(angleRad) * length;
-    const endY = Math.sin(angleRad) * length;
+    const tip = toScreen(slot.direction, length);
+    const center = toScreen(slot.direction, length / 2);
+    const angleRad = Math.atan2(tip.y, tip.x);
+    const angle = (angleRad * 180) / Math.PI;
 
-    // Control points for Bezier curve (tear drop shape)
-    const cp1X = Math.cos(angleRad - Math.PI / 8) * (length * 0.5);
-    const cp1Y = Math.sin(angleRad - Math.PI / 8) * (length * 0.5);
-    const cp2X = Math.cos(angleRad + Math.PI / 8) * (length * 0.5);
-    const cp2Y = Math.sin(angleRad + Math.PI / 8) * (length * 0.5);
+    // Outline of an ellipsoid lobe seen by the camera: it shortens as it turns toward or away from the viewer
+    const [viewX, viewY] = rotateToView(slot.direction, camera);
+    const sideways = Math.min(1, Math.hypot(viewX, viewY));
+    const width = VISUAL_CONFIG.LOBE_WIDTH * center.scale;
+    const span = Math.hypot(length * sideways, VISUAL_CONFIG.LOBE_WIDTH * Math.sqrt(1 - sideways ** 2)) * center.scale;
+    const lobeTransform = `rotate(${angle}, ${center.x}, ${center.y})`;
+    const inner = toScreen(slot.direction, VISUAL_CONFIG.ATOM_RADIUS);
+    const outer = toScreen(slot.direction, length - 12);
+    const dots = toScreen(slot.direction, length * 0.8);
 
     // Color logic
     let fill = VISUAL_CONFIG.COLORS.EMPTY;
     let stroke = '#94a3b8';
-    let opacity = 1 - slot.tilt * 0.4;
+    let opacity = 1 - Math.max(0, -depth) * 0.4; // Farther lobes fade
 
     if (slot.type === SlotType.BOND) {
       fill = VISUAL_CONFIG.COLORS.BOND;
@@ -54,49 +195,199 @@ const OrbitalVisualizer: React.FC<OrbitalVisualizerProps> = ({
     return (
       <g 
         key={slot.id} 
-        onClick={() => onSlotClick(slot.id)}
-        className="cursor-pointer transition-all duration-200 hover:opacity-80"
-        style={{ opacity }}
+        ref={(element: SVGGElement | null) => { slotRefs.current[slot.id] = element; }}
+        data-slot-id={slot.id}
+        role="button"
+        tabIndex={slot.id === tabStopId ? 0 : -1}
+        aria-label={describeSlot(slot)}
+        aria-keyshortcuts="B L E"
+        onClick={() => { setFocusedId(slot.id); onSlotClick(slot.id); }}
+        onKeyDown={(event: React.KeyboardEvent) => handleSlotKeyDown(event, slot)}
+        onPointerDown={(event: React.PointerEvent) => {
+          // Occupied lobes drag their domain; anywhere else a drag turns the view
+          if (slot.type === SlotType.EMPTY) return;
+          event.stopPropagation();
+          onSlotDragStart(slot.id, event);
+        }}
+        onFocus={() => { setFocusedId(slot.id); setHasFocus(true); }}
+        onBlur={() => setHasFocus(false)}
+        className="cursor-pointer transition-all duration-200 hover:opacity-80 outline-none"
+        style={{ opacity, touchAction: 'none' }}
       >
+        {/* Drop target */}
+        {slot.id === dropTargetId && (
+          <ellipse
+            cx={center.x}
+            cy={center.y}
+            rx={span / 2 + 4}
+            ry={width / 2 + 4}
+            fill={VISUAL_CONFIG.COLORS.BOND}
+            fillOpacity="0.25"
+            stroke={VISUAL_CONFIG.COLORS.BOND}
+            strokeWidth="2"
+            transform={lobeTransform}
+          />
+        )}
+
+        {/* Focus ring */}
+        {hasFocus && slot.id === focusedId && (
+          <ellipse
+            cx={center.x}
+            cy={center.y}
+            rx={span / 2 + 5}
+            ry={width / 2 + 5}
+            fill="none"
+            stroke="#a5b4fc"
+            strokeWidth="2"
+            strokeDasharray="4 3"
+            transform={lobeTransform}
+          />
+        )}
+
         {/* The Orbital Lobe */}
         <ellipse 
-          cx={endX / 2} 
-          cy={endY / 2} 
-          rx={length / 2} 
+          cx={center.x}
+          cy={center.y}
+          rx={span / 2}
           ry={width / 2}
           fill={fill}
           stroke={stroke}
           strokeWidth="2"
-          transform={`rotate(${slot.angle}, ${endX/2}, ${endY/2})`}
+          transform={lobeTransform}
         />
         
+        {/* Bond lines: one per bond order */}
+        {slot.type === SlotType.BOND && (BOND_LINE_OFFSETS[slot.bondOrder ?? 1] ?? BOND_LINE_OFFSETS[1]).map(offset => {
+          const dx = -Math.sin(angleRad) * offset;
+          const dy = Math.cos(angleRad) * offset;
+          return (
+            <line
+              key={offset}
+              x1={inner.x + dx}
+              y1={inner.y + dy}
+              x2={outer.x + dx}
+              y2={outer.y + dy}
+              stroke="#ecfdf5"
+              strokeWidth="2"
+              strokeLinecap="round"
+            />
+          );
+        })}
+
         {/* Content Indicator */}
         {slot.type === SlotType.BOND && (
-          <g transform={`translate(${endX}, ${endY})`}>
+          <g transform={`translate(${tip.x}, ${tip.y}) scale(${tip.scale})`}>
             <circle r="12" fill="#e2e8f0" stroke="#475569" strokeWidth="2"/>
             <text x="0" y="4" textAnchor="middle" fontSize="10" fill="#0f172a" className="font-bold font-mono">
-              {ligandAtom}
+              {slot.ligand}
             </text>
           </g>
         )}
+
+        {slot.type === SlotType.BOND && !!formalCharges?.ligands[slot.id] &&
+          renderChargeBadge(formalCharges.ligands[slot.id], tip.x + 11 * tip.scale, tip.y - 11 * tip.scale)}
         
         {slot.type === SlotType.LONE_PAIR && (
-          <g transform={`translate(${endX * 0.8}, ${endY * 0.8})`}>
+          <g transform={`translate(${dots.x}, ${dots.y}) rotate(${angle + 90}) scale(${dots.scale})`}>
             <circle r="3" cx="-4" cy="0" fill="#fff" opacity="0.8"/>
             <circle r="3" cx="4" cy="0" fill="#fff" opacity="0.8"/>
           </g>
         )}
 
         {slot.type === SlotType.EMPTY && (
-           <circle cx={endX*0.8} cy={endY*0.8} r="4" fill="transparent" stroke="#ffffff33" strokeDasharray="2 2" />
+           <circle cx={dots.x} cy={dots.y} r={4 * dots.scale} fill="transparent" stroke="#ffffff33" strokeDasharray="2 2" />
+        )}
+      </g>
+    );
+  };
+
+  const renderAngleArc = (arc: AngleArc, index: number) => {
+    const r = VISUAL_CONFIG.ANGLE_ARC_RADIUS;
+    // The arc follows the sphere between the two bonds, so it turns with them
+    const points = Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => toScreen(slerp(arc.from, arc.to, i / ARC_SEGMENTS), r));
+    const label = toScreen(slerp(arc.from, arc.to, 0.5), r + 14);
+
+    return (
+      <g key={`arc-${index}`} className="pointer-events-none">
+        <path
+          d={points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ')}
+          fill="none"
+          stroke={VISUAL_CONFIG.COLORS.ANGLE_ARC}
+          strokeWidth="1.5"
+          strokeDasharray="3 2"
+        />
+        <text
+          x={label.x}
+          y={label.y + 3}
+          textAnchor="middle"
+          fontSize="9"
+          fill={VISUAL_CONFIG.COLORS.ANGLE_ARC}
+          className="font-mono font-bold select-none"
+        >
+          {arc.predicted}°
+        </text>
+        {arc.predicted !== arc.ideal && (
+          <text
+            x={label.x}
+            y={label.y + 13}
+            textAnchor="middle"
+            fontSize="7"
+            fill="#64748b"
+            textDecoration="line-through"
+            className="font-mono select-none"
+          >
+            {arc.ideal}°
+          </text>
         )}
       </g>
     );
   };
 
+  const renderDipole = (vector: Vec3) => {
+    const size = magnitude(vector);
+    if (size <= POLARITY_THRESHOLD) {
+      return (
+        <text x="0" y={VISUAL_CONFIG.ATOM_RADIUS + 14} textAnchor="middle" fontSize="10" fill={VISUAL_CONFIG.COLORS.DIPOLE} className="font-mono font-bold select-none pointer-events-none">
+          μ ≈ 0
+        </text>
+      );
+    }
+
+    // Arrow length grows with the dipole; it points at the negative end
+    const length = Math.min(VISUAL_CONFIG.DIPOLE_MAX_LENGTH, VISUAL_CONFIG.ATOM_RADIUS + 20 + 30 * size);
+    const { x: headX, y: headY } = projectPoint(scale(vector, length / size), camera);
+    // Perpendicular stroke near the tail marks the positive end
+    const crossX = -headY / length * 5;
+    const crossY = headX / length * 5;
+    const tailX = -headX * 0.25;
+    const tailY = -headY * 0.25;
+
+    return (
+      <g className="pointer-events-none">
+        <line x1={tailX} y1={tailY} x2={headX} y2={headY} stroke={VISUAL_CONFIG.COLORS.DIPOLE} strokeWidth="3" markerEnd="url(#dipole-head)" />
+        <line x1={tailX * 0.6 - crossX} y1={tailY * 0.6 - crossY} x2={tailX * 0.6 + crossX} y2={tailY * 0.6 + crossY} stroke={VISUAL_CONFIG.COLORS.DIPOLE} strokeWidth="3" />
+        <text x={headX * 1.12} y={headY * 1.12 + 4} textAnchor="middle" fontSize="10" fill={VISUAL_CONFIG.COLORS.DIPOLE} className="font-mono font-bold select-none">
+          μ
+        </text>
+      </g>
+    );
+  };
+
   return (
     <div className="relative w-full h-full flex items-center justify-center">
-      <svg viewBox="-150 -150 300 300" className="w-full max-w-[500px] h-auto drop-shadow-2xl">
+      <svg
+        viewBox="-150 -150 300 300"
+        className="w-full max-w-[500px] h-auto drop-shadow-2xl cursor-grab active:cursor-grabbing"
+        style={{ touchAction: 'none' }}
+        role="group"
+        data-structure-view
+        aria-label={`Electron domains around ${centralAtom}. Arrow keys move between domains; B places a bond, L a lone pair, E empties it, Enter places the selected domain or clears. Shift with the arrow keys rotates the view.`}
+        onPointerDown={handleViewPointerDown}
+        onPointerMove={handleViewPointerMove}
+        onPointerUp={handleViewPointerUp}
+        onPointerCancel={handleViewPointerUp}
+        onClickCapture={(event: React.MouseEvent) => justRotated.current && event.stopPropagation()}
+      >
         <defs>
           <filter id="glow">
             <feGaussianBlur stdDeviation="2.5" result="coloredBlur"/>
@@ -105,10 +396,13 @@ const OrbitalVisualizer: React.FC<OrbitalVisualizerProps> = ({
               <feMergeNode in="SourceGraphic"/>
             </feMerge>
           </filter>
+          <marker id="dipole-head" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={VISUAL_CONFIG.COLORS.DIPOLE} />
+          </marker>
         </defs>
         
         {/* Back slots */}
-        {sortedSlots.filter(s => s.tilt > 0).map(renderLobe)}
+        {sortedSlots.filter(s => s.depth < 0).map(renderLobe)}
 
         {/* Central Atom */}
         <circle 
@@ -130,16 +424,36 @@ const OrbitalVisualizer: React.FC<OrbitalVisualizerProps> = ({
         >
           {centralAtom}
         </text>
+        {!!formalCharges?.central &&
+          renderChargeBadge(formalCharges.central, VISUAL_CONFIG.ATOM_RADIUS * 0.75, -VISUAL_CONFIG.ATOM_RADIUS * 0.75)}
 
         {/* Front slots */}
-        {sortedSlots.filter(s => s.tilt <= 0).map(renderLobe)}
+        {sortedSlots.filter(s => s.depth >= 0).map(renderLobe)}
+
+        {/* Bond angle annotations */}
+        {angleArcs.map(renderAngleArc)}
+
+        {/* Net dipole */}
+        {dipole && renderDipole(dipole)}
 
       </svg>
       
+      {/* View reset */}
+      {(camera.yaw !== VISUAL_CONFIG.DEFAULT_VIEW.yaw || camera.pitch !== VISUAL_CONFIG.DEFAULT_VIEW.pitch) && (
+        <button
+          onClick={() => setCamera(VISUAL_CONFIG.DEFAULT_VIEW)}
+          className="absolute top-4 right-4 z-10 flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-950/80 border border-slate-800 text-xs text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" /> Reset View
+        </button>
+      )}
+
       {/* Helper Text */}
-      <div className="absolute bottom-4 text-slate-400 text-xs text-center pointer-events-none">
-        Click lobes to cycle: Bond / Lone Pair / Empty
+      <div className="absolute bottom-4 text-slate-400 text-xs text-center pointer-events-none" aria-hidden="true">
+        Drag domains onto lobes, or drag a lobe to move it · Drag the background to rotate · Keys: arrows, B / L / E, Shift+arrows rotate
       </div>
+
+      <div className="sr-only" aria-live="polite">{announcement}</div>
     </div>
   );
 };
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { LevelPack, ChallengeDifficulty } from '../types';
+import { DEFAULT_LEVEL_PACK, DIFFICULTY_BANDS, DEFAULT_CHALLENGE_COUNT } from '../constants';
+import { loadLevelPackFromFile, loadLevelPackFromUrl, LevelPackError } from '../services/levelPackService';
+import { generateLevelPack, createSeed } from '../services/generatorService';
+import { Atom, Package, FileUp, Link, ChevronRight, AlertCircle, PenTool, Dices, Sparkles } from 'lucide-react';
+
+interface PackSelectorProps {
+  onSelect: (pack: LevelPack) => void;
+  onOpenEditor: () => void;
+}
+
+const PackSelector: React.FC<PackSelectorProps> = ({ onSelect, onOpenEditor }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [seed, setSeed] = useState(() => String(createSeed()));
+  const [difficulty, setDifficulty] = useState<ChallengeDifficulty>(ChallengeDifficulty.MEDIUM);
+  const [challengeCount, setChallengeCount] = useState(DEFAULT_CHALLENGE_COUNT);
+
+  const load = async (loader: () => Promise<LevelPack>) => {
+    setIsLoading(true);
+    setErrors([]);
+    try {
+      onSelect(await loader());
+    } catch (error) {
+      setErrors(error instanceof LevelPackError ? error.errors : [(error as Error).message]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (file) load(() => loadLevelPackFromFile(file));
+  };
+
+  const handleUrlLoad = () => {
+    if (url.trim()) load(() => loadLevelPackFromUrl(url.trim()));
+  };
+
+  const handleGenerate = () => {
+    const parsedSeed = parseInt(seed, 10);
+    if (!Number.isInteger(parsedSeed) || parsedSeed < 0) {
+      setErrors(['The seed must be a whole number of 0 or more.']);
+      return;
+    }
+    load(async () => generateLevelPack({ seed: parsedSeed, difficulty, count: challengeCount }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-950/95 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-slate-900 border border-slate-700 p-8 rounded-2xl max-w-xl w-full shadow-2xl ring-1 ring-white/10">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="p-3 bg-indigo-600 rounded-xl shadow-lg shadow-indigo-500/30">
+            <Atom className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white tracking-tight">Choose a Level Pack</h1>
+            <p className="text-slate-400 text-sm font-medium">Pick the sample sequence for this session</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => onSelect(DEFAULT_LEVEL_PACK)}
+          disabled={isLoading}
+          className="w-full text-left p-4 rounded-xl border border-indigo-500/50 bg-indigo-900/20 hover:bg-indigo-900/40 transition-all flex items-center gap-4 group disabled:opacity-50"
+        >
+          <Package className="w-6 h-6 text-indigo-400 shrink-0" />
+          <div className="flex-1">
+            <p className="font-bold text-white">{DEFAULT_LEVEL_PACK.title}</p>
+            <p className="text-xs text-slate-400">{DEFAULT_LEVEL_PACK.description}</p>
+            <p className="text-xs text-indigo-300 mt-1">{DEFAULT_LEVEL_PACK.molecules.length} samples · Built-in</p>
+          </div>
+          <ChevronRight className="w-5 h-5 text-slate-500 group-hover:translate-x-1 transition-transform" />
+        </button>
+
+        <div className="mt-6 pt-6 border-t border-slate-800 space-y-3">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Generated Challenge</h3>
+
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(ChallengeDifficulty).map((level) => (
+              <button
+                key={level}
+                onClick={() => setDifficulty(level)}
+                className={`py-2 rounded-lg border text-sm font-bold transition-all duration-200
+                  ${difficulty === level
+                    ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-900/50'
+                    : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200'}
+                `}
+              >
+                {DIFFICULTY_BANDS[level].label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <div className="flex-1 flex items-center bg-slate-950 border border-slate-800 rounded-xl focus-within:border-indigo-500">
+              <span className="pl-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Seed</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))}
+                className="flex-1 min-w-0 px-3 py-3 bg-transparent text-sm font-mono text-slate-200 focus:outline-none"
+              />
+              <button onClick={() => setSeed(String(createSeed()))} className="p-2 mr-1 text-slate-500 hover:text-indigo-300" title="Random seed">
+                <Dices className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex items-center bg-slate-950 border border-slate-800 rounded-xl focus-within:border-indigo-500">
+              <span className="pl-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Samples</span>
+              <input
+                type="number"
+                min={5}
+                max={30}
+                value={challengeCount}
+                onChange={(e) => setChallengeCount(Math.min(30, Math.max(5, parseInt(e.target.value, 10) || DEFAULT_CHALLENGE_COUNT)))}
+                className="w-16 px-3 py-3 bg-transparent text-sm font-mono text-slate-200 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleGenerate}
+            disabled={isLoading || !seed}
+            className="w-full py-3 px-4 bg-indigo-900/30 hover:bg-indigo-900/50 border border-indigo-800/50 text-indigo-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Sparkles className="w-4 h-4" />
+            Generate Challenge
+          </button>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-slate-800 space-y-3">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Custom Pack</h3>
+
+          <label className={`w-full py-3 px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2 cursor-pointer ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+            <FileUp className="w-4 h-4" />
+            Load from File (.json)
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+          </label>
+
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUrlLoad()}
+              placeholder="https://example.org/unit-3.json"
+              className="flex-1 px-4 py-3 bg-slate-950 border border-slate-800 rounded-xl text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={handleUrlLoad}
+              disabled={isLoading || !url.trim()}
+              className="px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Link className="w-4 h-4" />
+              {isLoading ? 'Loading...' : 'Load'}
+            </button>
+          </div>
+
+          <button
+            onClick={onOpenEditor}
+            disabled={isLoading}
+            className="w-full py-3 px-4 border border-dashed border-slate-700 hover:border-indigo-500 text-slate-400 hover:text-indigo-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <PenTool className="w-4 h-4" />
+            Create or Edit a Pack
+          </button>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mt-4 p-4 bg-rose-900/20 border border-rose-800/40 rounded-xl max-h-48 overflow-y-auto">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertCircle className="w-4 h-4 text-rose-400" />
+              <p className="text-sm font-bold text-rose-200">This pack could not be loaded</p>
+            </div>
+            <ul className="text-xs text-rose-200/80 space-y-1 list-disc pl-5 font-mono">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PackSelector;
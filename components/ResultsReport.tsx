@@ -0,0 +1,121 @@
+import React from 'react';
+import { GameState, LevelPack } from '../types';
+import { MODE_CONFIGS } from '../constants';
+import { buildReportRows, buildReportCsv } from '../services/reportService';
+import { downloadFile } from '../services/fileService';
+import { Atom, FileSpreadsheet, Printer, RotateCcw, CheckCircle2, XCircle } from 'lucide-react';
+
+interface ResultsReportProps {
+  pack: LevelPack;
+  game: GameState;
+  onNewRun: () => void;
+}
+
+const ResultsReport: React.FC<ResultsReportProps> = ({ pack, game, onNewRun }) => {
+  const rows = buildReportRows(pack, game);
+  const structuresCorrect = game.history.filter(record => record?.structure?.isCorrect).length;
+  const hintsUsed = rows.reduce((total, row) => total + row.hintsUsed, 0);
+
+  const handleExportCsv = () => {
+    downloadFile(`${pack.id}-results.csv`, buildReportCsv(rows, game), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200 font-sans print:bg-white print:text-black animate-in fade-in duration-300">
+      <main className="max-w-7xl mx-auto p-6 print:p-0 print:max-w-none">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-600 rounded-xl shadow-lg shadow-indigo-500/30 print:hidden">
+              <Atom className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white tracking-tight print:text-black">Protocol Results</h1>
+              <p className="text-slate-400 text-sm font-medium print:text-slate-600">
+                {pack.title} · {MODE_CONFIGS[game.mode].label} Mode · {new Date().toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 print:hidden">
+            <button onClick={handleExportCsv} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-xl transition-all flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4" />
+              Export CSV
+            </button>
+            <button onClick={() => window.print()} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-xl transition-all flex items-center gap-2">
+              <Printer className="w-4 h-4" />
+              Print Report
+            </button>
+            <button onClick={onNewRun} className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-xl transition-all flex items-center gap-2">
+              <RotateCcw className="w-4 h-4" />
+              New Run
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="p-4 bg-slate-900 border border-slate-800 rounded-xl print:bg-white print:border-slate-300">
+            <p className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Score</p>
+            <p className="font-mono text-2xl font-bold text-emerald-400 print:text-black">{game.score}</p>
+          </div>
+          <div className="p-4 bg-slate-900 border border-slate-800 rounded-xl print:bg-white print:border-slate-300">
+            <p className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Structures Correct</p>
+            <p className="font-mono text-2xl font-bold text-slate-200 print:text-black">{structuresCorrect} / {rows.length}</p>
+          </div>
+          <div className="p-4 bg-slate-900 border border-slate-800 rounded-xl print:bg-white print:border-slate-300">
+            <p className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Hints Used</p>
+            <p className="font-mono text-2xl font-bold text-slate-200 print:text-black">{hintsUsed}</p>
+          </div>
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-x-auto print:bg-white print:border-slate-300 print:overflow-visible">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase tracking-wider border-b border-slate-800 print:border-slate-300">
+              <tr>
+                <th className="px-4 py-3">#</th>
+                <th className="px-4 py-3">Sample</th>
+                <th className="px-4 py-3">Hybridization</th>
+                <th className="px-4 py-3">Slot Arrangement</th>
+                <th className="px-4 py-3">Structure</th>
+                <th className="px-4 py-3">Shape</th>
+                <th className="px-4 py-3">Bond Angle</th>
+                <th className="px-4 py-3">Polarity</th>
+                <th className="px-4 py-3 text-right">Hints</th>
+                <th className="px-4 py-3 text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.index} className="border-b border-slate-800/60 last:border-0 align-top print:border-slate-200 break-inside-avoid">
+                  <td className="px-4 py-3 font-mono text-slate-500">{row.index}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-mono font-bold text-white print:text-black">{row.formula}</p>
+                    <p className="text-xs text-slate-500">{row.name}</p>
+                    {row.review && <p className="text-[10px] font-bold text-amber-300 uppercase tracking-wider mt-1 print:text-black">{row.review}</p>}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-indigo-300 print:text-black">{row.hybridization}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-slate-400 print:text-black">{row.arrangement}</td>
+                  <td className="px-4 py-3">
+                    <span className={`flex items-center gap-1.5 font-medium ${row.structure.startsWith('Correct') ? 'text-emerald-400' : 'text-rose-400'} print:text-black`}>
+                      {row.structure.startsWith('Correct')
+                        ? <CheckCircle2 className="w-4 h-4 shrink-0" />
+                        : <XCircle className="w-4 h-4 shrink-0" />}
+                      {row.structure}
+                    </span>
+                    {row.failReason && <p className="text-xs text-slate-400 mt-1 max-w-xs print:text-slate-700">{row.failReason}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-slate-300 print:text-black">{row.shape}</td>
+                  <td className="px-4 py-3 text-slate-300 print:text-black">{row.bondAngle}</td>
+                  <td className="px-4 py-3 text-slate-300 print:text-black">{row.polarity}</td>
+                  <td className="px-4 py-3 font-mono text-right text-slate-300 print:text-black">{row.hintsUsed}</td>
+                  <td className="px-4 py-3 font-mono text-right text-slate-300 print:text-black">{row.time}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ResultsReport;
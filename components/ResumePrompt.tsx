@@ -0,0 +1,73 @@
+import React from 'react';
+import { MODE_CONFIGS } from '../constants';
+import { SavedSession } from '../services/progressService';
+import { History, Play, RotateCcw } from 'lucide-react';
+
+interface ResumePromptProps {
+  session: SavedSession;
+  onResume: () => void;
+  onStartNew: () => void;
+}
+
+const ResumePrompt: React.FC<ResumePromptProps> = ({ session, onResume, onStartNew }) => {
+  const { pack, game, savedAt } = session;
+  const seen = new Set(game.sequence).size;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-950/95 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-slate-900 border border-slate-700 p-8 rounded-2xl max-w-md w-full shadow-2xl ring-1 ring-white/10">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="p-3 bg-indigo-600 rounded-xl shadow-lg shadow-indigo-500/30">
+            <History className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white tracking-tight">Resume Your Run?</h1>
+            <p className="text-slate-400 text-sm font-medium">Saved {new Date(savedAt).toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-950 rounded-xl border border-slate-800 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-500">Level Pack</span>
+            <span className="font-bold text-slate-200">{pack.title}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Mode</span>
+            <span className="font-bold text-slate-200">{MODE_CONFIGS[game.mode].label}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Current Turn</span>
+            <span className="font-mono text-indigo-300">{game.currentTurn + 1}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Samples Seen</span>
+            <span className="font-mono text-slate-200">{seen} of {pack.molecules.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Score</span>
+            <span className="font-mono font-bold text-emerald-400">{game.score}</span>
+          </div>
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-2">
+          <button
+            onClick={onStartNew}
+            className="py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+          >
+            Start New
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onResume}
+            className="py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg shadow-indigo-900/20 transition-all flex items-center justify-center gap-2"
+          >
+            Resume
+            <Play className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
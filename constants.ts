@@ -1,4 +1,4 @@
-import { MoleculeDef, HybridizationType, OrbitalPositionType } from './types';
+import { MoleculeDef, LevelPack, HybridizationType, OrbitalPositionType, SlotType, Vec3, GameMode, ModeConfig, GeneratorCenter, ChallengeDifficulty, HintTier, HintConcept, AudioSettings } from './types';
 
 export const GEOMETRY_NAMES: Record<HybridizationType, string> = {
   [HybridizationType.SP]: 'Linear',
@@ -8,12 +8,187 @@ export const GEOMETRY_NAMES: Record<HybridizationType, string> = {
   [HybridizationType.SP3D2]: 'Octahedral'
 };
 
+// Molecular shape (atoms only) by electron geometry and lone-pair count
+export const MOLECULAR_SHAPE_NAMES: Record<HybridizationType, Record<number, string>> = {
+  [HybridizationType.SP]: {
+    0: 'Linear'
+  },
+  [HybridizationType.SP2]: {
+    0: 'Trigonal Planar',
+    1: 'Bent'
+  },
+  [HybridizationType.SP3]: {
+    0: 'Tetrahedral',
+    1: 'Trigonal Pyramidal',
+    2: 'Bent'
+  },
+  [HybridizationType.SP3D]: {
+    0: 'Trigonal Bipyramidal',
+    1: 'Seesaw',
+    2: 'T-shaped',
+    3: 'Linear'
+  },
+  [HybridizationType.SP3D2]: {
+    0: 'Octahedral',
+    1: 'Square Pyramidal',
+    2: 'Square Planar',
+    3: 'T-shaped',
+    4: 'Linear'
+  }
+};
+
+// Every distinct shape name, offered as the answer choices
+export const MOLECULAR_SHAPE_OPTIONS: string[] = Array.from(new Set(
+  Object.values(MOLECULAR_SHAPE_NAMES).flatMap(shapes => Object.values(shapes))
+));
+
+// Typical X–A–X bond angles, by layout and lone-pair count: ideal angle -> angle after lone-pair compression
+export const BOND_ANGLES: Record<HybridizationType, Record<number, Record<number, number>>> = {
+  [HybridizationType.SP]: {
+    0: { 180: 180 }
+  },
+  [HybridizationType.SP2]: {
+    0: { 120: 120 },
+    1: { 120: 118 }
+  },
+  [HybridizationType.SP3]: {
+    0: { 109.5: 109.5 },
+    1: { 109.5: 107 },
+    2: { 109.5: 104.5 }
+  },
+  [HybridizationType.SP3D]: {
+    0: { 90: 90, 120: 120, 180: 180 },
+    1: { 90: 87, 120: 102, 180: 173 },
+    2: { 90: 87.5, 180: 175 },
+    3: { 180: 180 }
+  },
+  [HybridizationType.SP3D2]: {
+    0: { 90: 90, 180: 180 },
+    1: { 90: 85, 180: 170 },
+    2: { 90: 90, 180: 180 },
+    3: { 90: 87, 180: 174 },
+    4: { 180: 180 }
+  }
+};
+
+// An angle estimate within this many degrees of the prediction counts as correct
+export const BOND_ANGLE_TOLERANCE = 3;
+
+export const SCORING = {
+  STRUCTURE: 100,
+  MOLECULAR_SHAPE: 50,
+  BOND_ANGLE: 25,
+  POLARITY: 25
+};
+
+export const MODE_CONFIGS: Record<GameMode, ModeConfig> = {
+  [GameMode.PRACTICE]: {
+    label: 'Practice',
+    intro: 'Build each structure at your own pace. A wrong answer can be retried after reading the feedback, and the right electron geometry earns partial credit even when the slots are off. A correct second attempt earns half of a step\'s points and a later one nothing beyond partial credit, and every AI hint costs points.',
+    protocolNote: 'Practice Protocol: You may retry each step. Retries and AI hints reduce the marks for this sample.',
+    allowRetries: true,
+    scoring: SCORING,
+    retryPenalty: 0.5,
+    partialStructureCredit: 0.4,
+    hintPenalty: 10,
+    hintTiers: 3
+  },
+  [GameMode.EXAM]: {
+    label: 'Exam',
+    intro: 'Each sample allows a single attempt per step. A structure is marked all or nothing, so check the electron count and every placement before verifying. AI hints are free but stop at the concept behind a mistake, and are only available before you verify.',
+    protocolNote: 'Analysis Protocol: You have one attempt per sample. Incorrect structure validation will result in data loss (0 marks).',
+    allowRetries: false,
+    scoring: SCORING,
+    retryPenalty: 0,
+    partialStructureCredit: 0,
+    hintPenalty: 0,
+    hintTiers: 2 // Free hints stop before the near-answer rung
+  }
+};
+
+// The hint ladder: each request reveals the next rung, and the instruction tells a
+// language model how much it may give away
+export const HINT_TIERS: { tier: HintTier; label: string; instruction: string }[] = [
+  {
+    tier: HintTier.NUDGE,
+    label: 'Nudge',
+    instruction: 'Give a one-sentence Socratic nudge: a question that points at what to reconsider. Do not name the geometry or give any counts.'
+  },
+  {
+    tier: HintTier.CONCEPT,
+    label: 'Concept',
+    instruction: 'Explain the VSEPR concept behind their mistake in at most 2 sentences (domain counting, lone-pair repulsion, or axial versus equatorial crowding) without applying it to give their answer.'
+  },
+  {
+    tier: HintTier.NEAR_ANSWER,
+    label: 'Near Answer',
+    instruction: 'Walk them almost to the answer in at most 3 sentences: state the steric number, the lone-pair count and the placement rule, but leave building the structure to them.'
+  }
+];
+
+export const HINT_CONCEPT_LABELS: Record<HintConcept, string> = {
+  [HintConcept.STERIC_NUMBER]: 'Steric Number',
+  [HintConcept.ELECTRON_COUNT]: 'Electron Count',
+  [HintConcept.FORMAL_CHARGE]: 'Formal Charge',
+  [HintConcept.LONE_PAIR_PLACEMENT]: 'Lone-Pair Placement',
+  [HintConcept.MOLECULAR_SHAPE]: 'Molecular Shape',
+  [HintConcept.GENERAL]: 'General'
+};
+
+// A hint or success note that takes longer than this falls back to the offline tutor
+export const HINT_TIMEOUT_MS = 15000;
+
+// Valence electrons of the main-group atoms used as central atoms or ligands
+export const VALENCE_ELECTRONS: Record<string, number> = {
+  H: 1,
+  Li: 1, Be: 2, B: 3, C: 4, N: 5, O: 6, F: 7, Ne: 8,
+  Na: 1, Mg: 2, Al: 3, Si: 4, P: 5, S: 6, Cl: 7, Ar: 8,
+  Ga: 3, Ge: 4, As: 5, Se: 6, Br: 7, Kr: 8,
+  Sn: 4, Sb: 5, Te: 6, I: 7, Xe: 8
+};
+
+// Pauling electronegativities, used for bond and molecular dipoles
+export const ELECTRONEGATIVITY: Record<string, number> = {
+  H: 2.20,
+  Li: 0.98, Be: 1.57, B: 2.04, C: 2.55, N: 3.04, O: 3.44, F: 3.98,
+  Na: 0.93, Mg: 1.31, Al: 1.61, Si: 1.90, P: 2.19, S: 2.58, Cl: 3.16,
+  Ga: 1.81, Ge: 2.01, As: 2.18, Se: 2.55, Br: 2.96, Kr: 3.00,
+  Sn: 1.96, Sb: 2.05, Te: 2.10, I: 2.66, Xe: 2.60
+};
+
+// Single-bond covalent radii in ångströms (Cordero et al., 2008), for exported coordinates
+export const COVALENT_RADII: Record<string, number> = {
+  H: 0.31,
+  Li: 1.28, Be: 0.96, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57, Ne: 0.58,
+  Na: 1.66, Mg: 1.41, Al: 1.21, Si: 1.11, P: 1.07, S: 1.05, Cl: 1.02, Ar: 1.06,
+  Ga: 1.22, Ge: 1.20, As: 1.19, Se: 1.20, Br: 1.20, Kr: 1.16,
+  Sn: 1.39, Sb: 1.39, Te: 1.38, I: 1.39, Xe: 1.40
+};
+
+// Typical shortening of a double and triple bond relative to the single bond
+export const BOND_LENGTH_FACTORS = [1, 0.87, 0.78];
+
+// Distance from the central atom at which exported lone pairs are placed, in ångströms
+export const LONE_PAIR_DISTANCE = 0.6;
+
+// A net dipole smaller than this (in electronegativity units) counts as cancelled
+export const POLARITY_THRESHOLD = 0.05;
+
+// Electron domains around the central atom -> hybridization of that atom
+export const HYBRIDIZATION_BY_STERIC_NUMBER: Record<number, HybridizationType> = {
+  2: HybridizationType.SP,
+  3: HybridizationType.SP2,
+  4: HybridizationType.SP3,
+  5: HybridizationType.SP3D,
+  6: HybridizationType.SP3D2
+};
+
 export const MOLECULES: MoleculeDef[] = [
   {
     formula: 'BeCl₂',
     name: 'Beryllium Chloride',
     centralAtom: 'Be',
-    ligandAtom: 'Cl',
+    ligands: [{ atom: 'Cl', count: 2 }],
     bondingPairs: 2,
     lonePairs: 0,
     stericNumber: 2,
@@ -24,7 +199,7 @@ export const MOLECULES: MoleculeDef[] = [
     formula: 'BF₃',
     name: 'Boron Trifluoride',
     centralAtom: 'B',
-    ligandAtom: 'F',
+    ligands: [{ atom: 'F', count: 3 }],
     bondingPairs: 3,
     lonePairs: 0,
     stericNumber: 3,
@@ -35,40 +210,62 @@ export const MOLECULES: MoleculeDef[] = [
     formula: 'SO₂',
     name: 'Sulfur Dioxide',
     centralAtom: 'S',
-    ligandAtom: 'O',
+    ligands: [{ atom: 'O', count: 1, bondOrder: 2 }, { atom: 'O', count: 1 }],
     bondingPairs: 2,
     lonePairs: 1,
     stericNumber: 3,
     hybridization: HybridizationType.SP2,
-    description: 'Bent shape. One lone pair repels the bonds slightly.',
+    description: 'Bent shape. One lone pair repels the bonds slightly. The S=O double bond resonates between both oxygens.',
   },
   {
     formula: 'CH₄',
     name: 'Methane',
     centralAtom: 'C',
-    ligandAtom: 'H',
+    ligands: [{ atom: 'H', count: 4 }],
     bondingPairs: 4,
     lonePairs: 0,
     stericNumber: 4,
     hybridization: HybridizationType.SP3,
     description: 'Classic tetrahedral geometry.',
   },
+  {
+    formula: 'CH₂Cl₂',
+    name: 'Dichloromethane',
+    centralAtom: 'C',
+    ligands: [{ atom: 'H', count: 2 }, { atom: 'Cl', count: 2 }],
+    bondingPairs: 4,
+    lonePairs: 0,
+    stericNumber: 4,
+    hybridization: HybridizationType.SP3,
+    description: 'Tetrahedral with two kinds of ligand. Every tetrahedral position is equivalent.',
+  },
   {
     formula: 'NH₃',
     name: 'Ammonia',
     centralAtom: 'N',
-    ligandAtom: 'H',
+    ligands: [{ atom: 'H', count: 3 }],
     bondingPairs: 3,
     lonePairs: 1,
     stericNumber: 4,
     hybridization: HybridizationType.SP3,
     description: 'Trigonal pyramidal. The lone pair compresses bond angles.',
   },
+  {
+    formula: 'POCl₃',
+    name: 'Phosphoryl Chloride',
+    centralAtom: 'P',
+    ligands: [{ atom: 'O', count: 1, bondOrder: 2 }, { atom: 'Cl', count: 3 }],
+    bondingPairs: 4,
+    lonePairs: 0,
+    stericNumber: 4,
+    hybridization: HybridizationType.SP3,
+    description: 'Tetrahedral. The P=O double bond still counts as a single electron domain.',
+  },
   {
     formula: 'H₂O',
     name: 'Water',
     centralAtom: 'O',
-    ligandAtom: 'H',
+    ligands: [{ atom: 'H', count: 2 }],
     bondingPairs: 2,
     lonePairs: 2,
     stericNumber: 4,
@@ -79,18 +276,62 @@ export const MOLECULES: MoleculeDef[] = [
     formula: 'PCl₅',
     name: 'Phosphorus Pentachloride',
     centralAtom: 'P',
-    ligandAtom: 'Cl',
+    ligands: [{ atom: 'Cl', count: 5 }],
     bondingPairs: 5,
     lonePairs: 0,
     stericNumber: 5,
     hybridization: HybridizationType.SP3D,
     description: 'Trigonal bipyramidal. Expanded octet.',
   },
+  {
+    formula: 'SOF₄',
+    name: 'Thionyl Tetrafluoride',
+    centralAtom: 'S',
+    ligands: [{ atom: 'O', count: 1, bondOrder: 2 }, { atom: 'F', count: 4 }],
+    bondingPairs: 5,
+    lonePairs: 0,
+    stericNumber: 5,
+    hybridization: HybridizationType.SP3D,
+    description: 'Trigonal bipyramidal. The more electronegative fluorines take the axial positions; oxygen sits equatorial.',
+    geometryRules: {
+      axialLigand: 'F'
+    }
+  },
+  {
+    formula: 'SF₄',
+    name: 'Sulfur Tetrafluoride',
+    centralAtom: 'S',
+    ligands: [{ atom: 'F', count: 4 }],
+    bondingPairs: 4,
+    lonePairs: 1,
+    stericNumber: 5,
+    hybridization: HybridizationType.SP3D,
+    description: 'Seesaw. The lone pair takes an equatorial slot, leaving both axial positions bonded.',
+    geometryRules: {
+      lonePairsMustBe: OrbitalPositionType.EQUATORIAL,
+      axialMustBe: SlotType.BOND
+    }
+  },
+  {
+    formula: 'ClF₃',
+    name: 'Chlorine Trifluoride',
+    centralAtom: 'Cl',
+    ligands: [{ atom: 'F', count: 3 }],
+    bondingPairs: 3,
+    lonePairs: 2,
+    stericNumber: 5,
+    hybridization: HybridizationType.SP3D,
+    description: 'T-shaped. Two equatorial lone pairs squeeze the three bonds into a T.',
+    geometryRules: {
+      lonePairsMustBe: OrbitalPositionType.EQUATORIAL,
+      axialMustBe: SlotType.BOND
+    }
+  },
   {
     formula: 'XeF₂',
     name: 'Xenon Difluoride',
     centralAtom: 'Xe',
-    ligandAtom: 'F',
+    ligands: [{ atom: 'F', count: 2 }],
     bondingPairs: 2,
     lonePairs: 3,
     stericNumber: 5,
@@ -104,64 +345,251 @@ export const MOLECULES: MoleculeDef[] = [
     formula: 'SF₆',
     name: 'Sulfur Hexafluoride',
     centralAtom: 'S',
-    ligandAtom: 'F',
+    ligands: [{ atom: 'F', count: 6 }],
     bondingPairs: 6,
     lonePairs: 0,
     stericNumber: 6,
     hybridization: HybridizationType.SP3D2,
     description: 'Octahedral geometry. Very stable.',
   },
+  {
+    formula: 'BrF₅',
+    name: 'Bromine Pentafluoride',
+    centralAtom: 'Br',
+    ligands: [{ atom: 'F', count: 5 }],
+    bondingPairs: 5,
+    lonePairs: 1,
+    stericNumber: 6,
+    hybridization: HybridizationType.SP3D2,
+    description: 'Square pyramidal. Every octahedral position is equivalent for a single lone pair.',
+  },
+  {
+    formula: 'XeF₄',
+    name: 'Xenon Tetrafluoride',
+    centralAtom: 'Xe',
+    ligands: [{ atom: 'F', count: 4 }],
+    bondingPairs: 4,
+    lonePairs: 2,
+    stericNumber: 6,
+    hybridization: HybridizationType.SP3D2,
+    description: 'Square planar. The two lone pairs sit trans to each other, 180° apart.',
+    geometryRules: {
+      lonePairsTrans: true
+    }
+  },
   {
     formula: 'ClO₃⁻',
     name: 'Chlorate Ion',
     centralAtom: 'Cl',
-    ligandAtom: 'O',
+    ligands: [{ atom: 'O', count: 2, bondOrder: 2 }, { atom: 'O', count: 1 }],
+    charge: -1,
     bondingPairs: 3,
     lonePairs: 1,
     stericNumber: 4,
     hybridization: HybridizationType.SP3,
-    description: 'Trigonal pyramidal geometry.',
+    description: 'Trigonal pyramidal geometry. Two Cl=O double bonds resonate over the three oxygens.',
+  }
+];
+
+// Indexed by bond order - 1
+export const BOND_ORDER_SYMBOLS = ['–', '=', '≡'];
+
+export const LEVEL_PACK_FORMAT_VERSION = 1;
+
+// --- Challenge generator tables ---
+
+export const ELEMENT_NAMES: Record<string, string> = {
+  Be: 'Beryllium', B: 'Boron', Al: 'Aluminum',
+  C: 'Carbon', Si: 'Silicon', Ge: 'Germanium',
+  N: 'Nitrogen', P: 'Phosphorus', As: 'Arsenic', Sb: 'Antimony',
+  O: 'Oxygen', S: 'Sulfur', Se: 'Selenium', Te: 'Tellurium',
+  Cl: 'Chlorine', Br: 'Bromine', I: 'Iodine',
+  Kr: 'Krypton', Xe: 'Xenon'
+};
+
+// Anion-style roots used in binary compound names, e.g. "Tetrafluoride"
+export const LIGAND_NAME_ROOTS: Record<string, string> = {
+  O: 'oxide',
+  F: 'fluoride',
+  Cl: 'chloride',
+  Br: 'bromide',
+  I: 'iodide'
+};
+
+export const GENERATOR_CENTERS: GeneratorCenter[] = [
+  // Group 2, 13, 14: no lone pairs on the central atom
+  { atom: 'Be', valences: [2], halogens: ['F', 'Cl', 'Br'] },
+  { atom: 'B', valences: [3], halogens: ['F', 'Cl', 'Br'] },
+  { atom: 'Al', valences: [3], halogens: ['Cl', 'Br'] },
+  { atom: 'C', valences: [4], halogens: ['F', 'Cl', 'Br'], maxOxo: 2 },
+  { atom: 'Si', valences: [4], halogens: ['F', 'Cl'] },
+  { atom: 'Ge', valences: [4], halogens: ['F', 'Cl'] },
+  // Group 15
+  { atom: 'N', valences: [3], halogens: ['F', 'Cl'] },
+  { atom: 'P', valences: [3, 5], halogens: ['F', 'Cl', 'Br'], expandedHalogens: ['F', 'Cl'], maxOxo: 1 },
+  { atom: 'As', valences: [3, 5], halogens: ['F', 'Cl'], expandedHalogens: ['F'] },
+  { atom: 'Sb', valences: [3, 5], halogens: ['F', 'Cl'], expandedHalogens: ['F', 'Cl'] },
+  // Group 16
+  { atom: 'O', valences: [2], halogens: ['F', 'Cl'] },
+  { atom: 'S', valences: [2, 4, 6], halogens: ['F', 'Cl'], expandedHalogens: ['F'], maxOxo: 3 },
+  { atom: 'Se', valences: [2, 4, 6], halogens: ['F', 'Cl'], expandedHalogens: ['F'], maxOxo: 2 },
+  { atom: 'Te', valences: [4, 6], halogens: ['F'], expandedHalogens: ['F'] },
+  // Group 17 centers bond to lighter halogens
+  { atom: 'Cl', valences: [3, 5], halogens: ['F'], expandedHalogens: ['F'], maxOxo: 2 },
+  { atom: 'Br', valences: [3, 5], halogens: ['F'], expandedHalogens: ['F'], maxOxo: 1 },
+  { atom: 'I', valences: [3, 5], halogens: ['F'], expandedHalogens: ['F'], maxOxo: 2 },
+  // Noble gases
+  { atom: 'Kr', valences: [2], halogens: ['F'], expandedHalogens: ['F'] },
+  { atom: 'Xe', valences: [2, 4, 6, 8], halogens: ['F'], expandedHalogens: ['F'], maxOxo: 4 },
+  // Polyatomic ions
+  { atom: 'B', charge: -1, valences: [4], halogens: ['F', 'Cl'] },
+  { atom: 'Al', charge: -1, valences: [4], halogens: ['Cl'] },
+  { atom: 'N', charge: 1, valences: [4], halogens: ['F'] },
+  { atom: 'P', charge: -1, valences: [6], halogens: ['F', 'Cl'], expandedHalogens: ['F', 'Cl'] },
+  { atom: 'S', charge: -1, valences: [5], halogens: ['F'], expandedHalogens: ['F'] },
+  { atom: 'Cl', charge: 1, valences: [2], halogens: ['F'] },
+  { atom: 'Br', charge: -1, valences: [4], halogens: ['F'], expandedHalogens: ['F'] },
+  { atom: 'I', charge: -1, valences: [2, 4], halogens: ['Cl', 'F'], expandedHalogens: ['Cl', 'F'] },
+  { atom: 'I', charge: 1, valences: [4], halogens: ['F'], expandedHalogens: ['F'] },
+  { atom: 'Xe', charge: 1, valences: [5], halogens: ['F'], expandedHalogens: ['F'] }
+];
+
+// Difficulty score ranges (see getDifficultyScore) each setting draws from
+export const DIFFICULTY_BANDS: Record<ChallengeDifficulty, { min: number; max: number; label: string }> = {
+  [ChallengeDifficulty.EASY]: { min: 0, max: 1, label: 'Easy' },
+  [ChallengeDifficulty.MEDIUM]: { min: 1, max: 3, label: 'Medium' },
+  [ChallengeDifficulty.HARD]: { min: 3, max: 5, label: 'Hard' }
+};
+
+export const DEFAULT_CHALLENGE_COUNT = 10;
+
+// Saved runs from an older format are discarded rather than migrated
+export const PROGRESS_STORAGE_KEY = 'vsepr-level-3:progress';
+export const PROGRESS_FORMAT_VERSION = 3;
+
+// Turns until a missed sample returns; a correct review moves it to the next interval,
+// and passing the last one retires it
+export const REVIEW_INTERVALS = [2, 4, 8];
+
+// An adaptive run ends after this many passes' worth of turns even if reviews remain
+export const ADAPTIVE_TURN_LIMIT = 2;
+
+export const AUDIO_SETTINGS_STORAGE_KEY = 'vsepr-level-3:audio';
+
+// Gain of each channel at full volume
+export const AUDIO_LEVELS = { MASTER: 0.3, MUSIC: 0.4, SFX: 0.5 };
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 1,
+  musicVolume: 1,
+  sfxVolume: 1,
+  masterMuted: false,
+  musicMuted: false,
+  sfxMuted: false
+};
+
+// Adaptive soundtrack, calm to tense: drone voices under the melody, the gap between melody
+// notes and how long each note rings. Tension comes from the minor third, then the tritone.
+export const MUSIC_INTENSITY_LEVELS: { drone: { frequency: number; gain: number; type: OscillatorType }[]; noteGapMs: [number, number]; noteSeconds: number }[] = [
+  {
+    drone: [{ frequency: 65.41, gain: 0.15, type: 'triangle' }, { frequency: 130.81, gain: 0.05, type: 'sine' }], // C2, C3
+    noteGapMs: [3000, 8000],
+    noteSeconds: 4
+  },
+  {
+    drone: [{ frequency: 65.41, gain: 0.15, type: 'triangle' }, { frequency: 130.81, gain: 0.05, type: 'sine' }, { frequency: 196.00, gain: 0.03, type: 'sine' }], // + G3
+    noteGapMs: [2500, 6000],
+    noteSeconds: 3.5
+  },
+  {
+    drone: [{ frequency: 65.41, gain: 0.15, type: 'triangle' }, { frequency: 130.81, gain: 0.05, type: 'sine' }, { frequency: 155.56, gain: 0.04, type: 'sine' }], // + Eb3
+    noteGapMs: [1800, 4000],
+    noteSeconds: 3
+  },
+  {
+    drone: [{ frequency: 65.41, gain: 0.15, type: 'triangle' }, { frequency: 92.50, gain: 0.05, type: 'triangle' }, { frequency: 138.59, gain: 0.03, type: 'sine' }], // + F#2, Db3
+    noteGapMs: [1000, 2500],
+    noteSeconds: 2
   }
 ];
 
+// Expanded octets are the harder samples, so they play at the tenser levels
+export const MUSIC_INTENSITY_BY_HYBRIDIZATION: Record<HybridizationType, number> = {
+  [HybridizationType.SP]: 0,
+  [HybridizationType.SP2]: 0,
+  [HybridizationType.SP3]: 1,
+  [HybridizationType.SP3D]: 2,
+  [HybridizationType.SP3D2]: 3
+};
+
+export const MUSIC_CROSSFADE_SECONDS = 2.5;
+
+// Correct answers in a row before the streak motif plays
+export const STREAK_MOTIF_MIN = 2;
+
+// The built-in sample set, offered as the default level pack
+export const DEFAULT_LEVEL_PACK: LevelPack = {
+  formatVersion: LEVEL_PACK_FORMAT_VERSION,
+  id: 'vsepr-level-3',
+  title: 'VSEPR Level 3',
+  description: 'From linear BeCl₂ to expanded-octet sp³d² molecules, including mixed ligands and resonance.',
+  molecules: MOLECULES
+};
+
+// Failure messages for misplaced lone pairs, by layout and lone-pair count
+export const PLACEMENT_FAILURE_MESSAGES: Partial<Record<HybridizationType, Record<number, string>>> = {
+  [HybridizationType.SP3D]: {
+    1: "Unstable seesaw! The lone pair belongs in an equatorial slot, where it has only two 90° neighbours. Both axial slots must stay bonded.",
+    2: "Unstable T-shape! Both lone pairs belong in the equatorial plane, 120° apart. The axial slots must hold the bonds.",
+    3: "Unstable arrangement! Lone pairs must be in equatorial positions to minimize repulsion."
+  },
+  [HybridizationType.SP3D2]: {
+    2: "Unstable arrangement! In a square planar shape the two lone pairs must be trans (180° apart), never side by side at 90°.",
+    3: "Unstable arrangement! Three lone pairs take a meridional layout: two of them must sit trans to each other.",
+    4: "Unstable arrangement! The four lone pairs must pair up trans, leaving the two bonds opposite each other."
+  }
+};
+
+export const DEFAULT_PLACEMENT_FAILURE = "Unstable arrangement! The lone pairs are not placed to minimize repulsion.";
+
+// Components of the real 3D domain directions (x right, y down, z toward the viewer)
+const COS_30 = Math.sqrt(3) / 2;
+const TET_RADIAL = (2 * Math.sqrt(2)) / 3; // Distance of a tetrahedral vertex from the vertical axis
+const TET_DROP = 1 / 3;
+
 // Slot Definitions for Visualizer
-// Pseudo-3D angles for 2D projection
-export const GEOMETRY_SLOTS: Record<HybridizationType, { angle: number, tilt: number, type: OrbitalPositionType }[]> = {
+// The 3D unit vector of each domain; the visualizer projects them through its camera
+export const GEOMETRY_SLOTS: Record<HybridizationType, { type: OrbitalPositionType, direction: Vec3 }[]> = {
   [HybridizationType.SP]: [
-    { angle: 0, tilt: 0, type: OrbitalPositionType.GENERAL },
-    { angle: 180, tilt: 0, type: OrbitalPositionType.GENERAL },
+    { type: OrbitalPositionType.GENERAL, direction: [1, 0, 0] },
+    { type: OrbitalPositionType.GENERAL, direction: [-1, 0, 0] },
   ],
   [HybridizationType.SP2]: [
-    { angle: 90, tilt: 0, type: OrbitalPositionType.GENERAL },
-    { angle: 210, tilt: 0, type: OrbitalPositionType.GENERAL },
-    { angle: 330, tilt: 0, type: OrbitalPositionType.GENERAL },
+    { type: OrbitalPositionType.GENERAL, direction: [0, 1, 0] },
+    { type: OrbitalPositionType.GENERAL, direction: [-COS_30, -0.5, 0] },
+    { type: OrbitalPositionType.GENERAL, direction: [COS_30, -0.5, 0] },
   ],
+  // One vertex on the vertical axis, the other three in a ring below it
   [HybridizationType.SP3]: [
-    { angle: 90, tilt: 0, type: OrbitalPositionType.GENERAL }, // Top
-    { angle: 210, tilt: 0.5, type: OrbitalPositionType.GENERAL }, // Bottom Left Back
-    { angle: 330, tilt: 0.5, type: OrbitalPositionType.GENERAL }, // Bottom Right Back
-    { angle: 270, tilt: -0.8, type: OrbitalPositionType.GENERAL }, // Front projecting (visual trick) -> actually let's stick to a tripod
+    { type: OrbitalPositionType.GENERAL, direction: [0, 1, 0] },
+    { type: OrbitalPositionType.GENERAL, direction: [-TET_RADIAL * COS_30, -TET_DROP, -TET_RADIAL * 0.5] },
+    { type: OrbitalPositionType.GENERAL, direction: [TET_RADIAL * COS_30, -TET_DROP, -TET_RADIAL * 0.5] },
+    { type: OrbitalPositionType.GENERAL, direction: [0, -TET_DROP, TET_RADIAL] },
   ],
-  // Redefine SP3 for better 2D look: Standard tetrahedron projection
-  // Top, Right-Down, Left-Down (front), Back (hidden/dashed usually, but here we just angle it)
-  // Let's use a standard "Tripod" look
-  // 90 (Top), 210 (Left Bottom), 330 (Right Bottom), 270 (Front-Center distinct)
-  
   [HybridizationType.SP3D]: [
-    { angle: 90, tilt: 0, type: OrbitalPositionType.AXIAL }, // Top Axial
-    { angle: 270, tilt: 0, type: OrbitalPositionType.AXIAL }, // Bottom Axial
-    { angle: 0, tilt: 0.5, type: OrbitalPositionType.EQUATORIAL }, // Eq Right
-    { angle: 120, tilt: 0.5, type: OrbitalPositionType.EQUATORIAL }, // Eq Top-Left (Back)
-    { angle: 240, tilt: 0.5, type: OrbitalPositionType.EQUATORIAL }, // Eq Bottom-Left (Back) -- Actually let's adjust for visual clarity
+    { type: OrbitalPositionType.AXIAL, direction: [0, 1, 0] },
+    { type: OrbitalPositionType.AXIAL, direction: [0, -1, 0] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [1, 0, 0] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [-0.5, 0, -COS_30] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [-0.5, 0, COS_30] },
   ],
-  
   [HybridizationType.SP3D2]: [
-    { angle: 90, tilt: 0, type: OrbitalPositionType.AXIAL },
-    { angle: 270, tilt: 0, type: OrbitalPositionType.AXIAL },
-    { angle: 45, tilt: 0.3, type: OrbitalPositionType.EQUATORIAL },
-    { angle: 135, tilt: 0.3, type: OrbitalPositionType.EQUATORIAL },
-    { angle: 225, tilt: 0.3, type: OrbitalPositionType.EQUATORIAL },
-    { angle: 315, tilt: 0.3, type: OrbitalPositionType.EQUATORIAL },
+    { type: OrbitalPositionType.AXIAL, direction: [0, 1, 0] },
+    { type: OrbitalPositionType.AXIAL, direction: [0, -1, 0] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [1, 0, 0] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [0, 0, -1] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [-1, 0, 0] },
+    { type: OrbitalPositionType.EQUATORIAL, direction: [0, 0, 1] },
   ]
 };
 
@@ -170,11 +598,20 @@ export const VISUAL_CONFIG = {
   ATOM_RADIUS: 30,
   LOBE_LENGTH: 80,
   LOBE_WIDTH: 35,
+  ANGLE_ARC_RADIUS: 48,
+  DIPOLE_MAX_LENGTH: 110,
+  DRAG_THRESHOLD: 6, // Pixels a pointer must move before a press becomes a drag
+  CAMERA_DISTANCE: 320, // Viewer distance from the central atom; smaller exaggerates perspective
+  DEFAULT_VIEW: { yaw: 20, pitch: -20 }, // Slightly turned so no domain points straight at the viewer
+  ROTATE_SPEED: 0.5, // Degrees of rotation per pixel dragged
+  ROTATE_STEP: 15, // Degrees per Shift+arrow key press
   COLORS: {
     BOND: '#10b981', // Emerald 500
     LONE_PAIR: '#f59e0b', // Amber 500
     EMPTY: '#334155', // Slate 700
     CENTRAL_ATOM: '#6366f1', // Indigo 500
-    AXIS_LINE: '#475569'
+    AXIS_LINE: '#475569',
+    ANGLE_ARC: '#a5b4fc', // Indigo 300
+    DIPOLE: '#f472b6' // Pink 400
   }
 };
\ No newline at end of file
@@ -2,6 +2,56 @@
 // A lightweight generative audio engine using Web Audio API
 // Creates a "Sci-Fi Lab" atmosphere with ambient music and UI effects
 
+import { AudioMuteKey, AudioSettings, AudioVolumeKey } from "../types";
+import {
+  AUDIO_LEVELS,
+  AUDIO_SETTINGS_STORAGE_KEY,
+  DEFAULT_AUDIO_SETTINGS,
+  MUSIC_INTENSITY_LEVELS,
+  MUSIC_CROSSFADE_SECONDS
+} from "../constants";
+import { isObject } from "./jsonUtils";
+
+const VOLUME_KEYS: AudioVolumeKey[] = ['masterVolume', 'musicVolume', 'sfxVolume'];
+const MUTE_KEYS: AudioMuteKey[] = ['masterMuted', 'musicMuted', 'sfxMuted'];
+
+const clampVolume = (value: number) => Math.max(0, Math.min(1, value));
+
+// Storage can be unavailable or hold an older shape; missing or invalid fields keep their defaults
+const loadSettings = (): AudioSettings => {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_AUDIO_SETTINGS };
+    if (!isObject(data)) return settings;
+    VOLUME_KEYS.forEach(key => {
+      const value = data[key];
+      if (typeof value === 'number' && Number.isFinite(value)) settings[key] = clampVolume(value);
+    });
+    MUTE_KEYS.forEach(key => {
+      const value = data[key];
+      if (typeof value === 'boolean') settings[key] = value;
+    });
+    return settings;
+  } catch (error) {
+    console.warn("Could not read audio settings", error);
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+};
+
+const saveSettings = (settings: AudioSettings) => {
+  try {
+    localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save audio settings", error);
+  }
+};
+
+// The drone playing at one intensity level; crossfades swap one layer for another
+interface MusicLayer {
+  output: GainNode;
+  oscillators: OscillatorNode[];
+}
+
 class AudioEngine {
   private ctx: AudioContext | null = null;
   private masterGain: GainNode | null = null;
@@ -10,9 +60,11 @@ class AudioEngine {
   private delayNode: DelayNode | null = null;
   private feedbackNode: GainNode | null = null;
 
-  private isMuted: boolean = false;
+  private settings: AudioSettings = loadSettings();
   private isInitialized: boolean = false;
   private melodyTimer: number | null = null;
+  private musicLayer: MusicLayer | null = null;
+  private musicIntensity = 0;
 
   // C Minor Pentatonic Scale (C, Eb, F, G, Bb) across octaves for melody
   private melodyScale = [
@@ -40,16 +92,16 @@ class AudioEngine {
       
       // 1. Master Mix
       this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.3; // Global Volume
+      this.masterGain.gain.value = this.getChannelLevel('master');
       this.masterGain.connect(this.ctx.destination);
 
       // 2. Groups
       this.musicGain = this.ctx.createGain();
-      this.musicGain.gain.value = 0.4; // Music Volume
+      this.musicGain.gain.value = this.getChannelLevel('music');
       this.musicGain.connect(this.masterGain);
 
       this.sfxGain = this.ctx.createGain();
-      this.sfxGain.gain.value = 0.5; // SFX Volume
+      this.sfxGain.gain.value = this.getChannelLevel('sfx');
       this.sfxGain.connect(this.masterGain);
 
       // 3. Delay Effect (Space Echo) for Music
@@ -71,110 +123,218 @@ class AudioEngine {
     }
   }
 
+  public getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
   public setMute(mute: boolean) {
-    this.isMuted = mute;
-    
-    if (this.ctx && this.masterGain) {
-      const t = this.ctx.currentTime;
-      // Smooth fade out/in
-      this.masterGain.gain.cancelScheduledValues(t);
-      this.masterGain.gain.setTargetAtTime(mute ? 0 : 0.3, t, 0.2);
-    }
-    
-    if (this.ctx) {
-      if (mute) {
-        if (this.melodyTimer) {
-            clearTimeout(this.melodyTimer);
-            this.melodyTimer = null;
-        }
-        // Suspend context to save CPU when muted, but give time for fade out
-        setTimeout(() => { if(this.isMuted) this.ctx?.suspend(); }, 300);
-      } else {
-        this.ctx.resume();
-        // Restart melody if it wasn't running
-        if (!this.melodyTimer) {
-            this.scheduleNextNote();
-        }
+    this.updateSettings({ masterMuted: mute });
+  }
+
+  public setMasterVolume(volume: number) {
+    this.updateSettings({ masterVolume: clampVolume(volume) });
+  }
+
+  public setMusicVolume(volume: number) {
+    this.updateSettings({ musicVolume: clampVolume(volume) });
+  }
+
+  public setSfxVolume(volume: number) {
+    this.updateSettings({ sfxVolume: clampVolume(volume) });
+  }
+
+  public setMusicMuted(mute: boolean) {
+    this.updateSettings({ musicMuted: mute });
+  }
+
+  public setSfxMuted(mute: boolean) {
+    this.updateSettings({ sfxMuted: mute });
+  }
+
+  private updateSettings(changes: Partial<AudioSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    saveSettings(this.settings);
+    this.applySettings();
+  }
+
+  private getChannelLevel(channel: 'master' | 'music' | 'sfx') {
+    const { settings } = this;
+    if (channel === 'master') return settings.masterMuted ? 0 : AUDIO_LEVELS.MASTER * settings.masterVolume;
+    if (channel === 'music') return settings.musicMuted ? 0 : AUDIO_LEVELS.MUSIC * settings.musicVolume;
+    return settings.sfxMuted ? 0 : AUDIO_LEVELS.SFX * settings.sfxVolume;
+  }
+
+  private isMusicAudible() {
+    return this.getChannelLevel('master') > 0 && this.getChannelLevel('music') > 0;
+  }
+
+  private isSfxAudible() {
+    return this.getChannelLevel('master') > 0 && this.getChannelLevel('sfx') > 0;
+  }
+
+  private applySettings() {
+    if (!this.ctx || !this.masterGain || !this.musicGain || !this.sfxGain) return;
+
+    const t = this.ctx.currentTime;
+    // Smooth fade out/in
+    ([[this.masterGain, 'master'], [this.musicGain, 'music'], [this.sfxGain, 'sfx']] as const).forEach(([node, channel]) => {
+      node.gain.cancelScheduledValues(t);
+      node.gain.setTargetAtTime(this.getChannelLevel(channel), t, 0.2);
+    });
+
+    if (!this.isMusicAudible()) {
+      if (this.melodyTimer) {
+          clearTimeout(this.melodyTimer);
+          this.melodyTimer = null;
       }
+    } else if (this.musicLayer && !this.melodyTimer) {
+      // Restart melody if it wasn't running
+      this.ctx.resume();
+      this.scheduleNextNote();
+    }
+
+    if (!this.isMusicAudible() && !this.isSfxAudible()) {
+      // Suspend context to save CPU when silent, but give time for fade out
+      setTimeout(() => { if (!this.isMusicAudible() && !this.isSfxAudible()) this.ctx?.suspend(); }, 300);
+    } else {
+      this.ctx.resume();
     }
   }
 
-  public startAmbientDrone() {
-    if (!this.ctx || !this.musicGain || !this.isInitialized) return;
+  // --- Music ---
+
+  // Starts the soundtrack at the current intensity; does nothing if it is already playing
+  public startMusic() {
+    if (!this.ctx || !this.musicGain || !this.isInitialized || this.musicLayer) return;
+    this.ctx.resume();
+
+    this.musicLayer = this.createMusicLayer(this.musicIntensity, 2);
+    this.scheduleNextNote();
+  }
+
+  // Fades the soundtrack out and releases its nodes
+  public stopMusic(fadeSeconds = MUSIC_CROSSFADE_SECONDS) {
+    if (this.melodyTimer) {
+      clearTimeout(this.melodyTimer);
+      this.melodyTimer = null;
+    }
+    if (this.musicLayer) {
+      this.releaseMusicLayer(this.musicLayer, fadeSeconds);
+      this.musicLayer = null;
+    }
+  }
+
+  // 0 is calm; higher levels crossfade to a tenser drone and a busier melody
+  public setMusicIntensity(level: number) {
+    const next = Math.max(0, Math.min(MUSIC_INTENSITY_LEVELS.length - 1, Math.round(level)));
+    if (next === this.musicIntensity) return;
+    this.musicIntensity = next;
+
+    if (this.musicLayer) {
+      this.releaseMusicLayer(this.musicLayer, MUSIC_CROSSFADE_SECONDS);
+      this.musicLayer = this.createMusicLayer(next, MUSIC_CROSSFADE_SECONDS);
+    }
+  }
+
+  // A rising run on the music channel; longer streaks start lower and climb further
+  public playStreakMotif(streak: number) {
+    if (!this.isMusicAudible() || !this.ctx || !this.musicGain) return;
+    this.ctx.resume();
+
+    const start = this.ctx.currentTime + 0.35; // After the success chime
+    const notes = this.melodyScale.slice(-Math.min(streak + 1, this.melodyScale.length));
+    notes.forEach((freq, i) => this.playTone(freq, 'triangle', start + i * 0.09, 0.06, 0.6));
+  }
+
+  // Dominant to tonic in C major, resolving the minor soundtrack, then a calm drone
+  public playCadence() {
+    if (!this.ctx || !this.musicGain) return;
+    this.setMusicIntensity(0);
+    if (!this.isMusicAudible()) return;
     this.ctx.resume();
 
     const t = this.ctx.currentTime;
+    [196.00, 246.94, 293.66].forEach(freq => this.playTone(freq, 'sine', t, 0.06, 1.2)); // G3 B3 D4
+    [261.63, 329.63, 392.00, 523.25].forEach((freq, i) => this.playTone(freq, 'sine', t + 1 + i * 0.05, 0.06, 3.5)); // C4 E4 G4 C5
+  }
 
-    // Layer 1: Deep Bass Drone (C2 - 65.41Hz)
-    const droneOsc1 = this.ctx.createOscillator();
-    const droneGain1 = this.ctx.createGain();
-    droneOsc1.type = 'triangle';
-    droneOsc1.frequency.value = 65.41;
-    
-    droneGain1.gain.setValueAtTime(0, t);
-    droneGain1.gain.linearRampToValueAtTime(0.15, t + 2); // Slow fade in
-    
-    droneOsc1.connect(droneGain1);
-    droneGain1.connect(this.musicGain);
-    droneOsc1.start();
-
-    // Layer 2: Subtle High Texture (Sine Detuned)
-    const droneOsc2 = this.ctx.createOscillator();
-    const droneGain2 = this.ctx.createGain();
-    droneOsc2.type = 'sine';
-    droneOsc2.frequency.value = 130.81; // C3
-    
-    droneGain2.gain.setValueAtTime(0, t);
-    droneGain2.gain.linearRampToValueAtTime(0.05, t + 3);
+  private createMusicLayer(level: number, fadeSeconds: number): MusicLayer {
+    const ctx = this.ctx!;
+    const t = ctx.currentTime;
+    const output = ctx.createGain();
+    output.gain.setValueAtTime(0, t);
+    output.gain.linearRampToValueAtTime(1, t + fadeSeconds); // Slow fade in
+    output.connect(this.musicGain!);
+
+    const oscillators = MUSIC_INTENSITY_LEVELS[level].drone.map(voice => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = voice.type;
+      osc.frequency.value = voice.frequency;
+      gain.gain.value = voice.gain;
+      osc.connect(gain);
+      gain.connect(output);
+      osc.onended = () => gain.disconnect();
+      osc.start(t);
+      return osc;
+    });
 
-    droneOsc2.connect(droneGain2);
-    droneGain2.connect(this.musicGain);
-    droneOsc2.start();
-    
-    // Start Generative Melody
-    this.scheduleNextNote();
+    return { output, oscillators };
+  }
+
+  private releaseMusicLayer(layer: MusicLayer, fadeSeconds: number) {
+    const t = this.ctx!.currentTime;
+    layer.output.gain.cancelScheduledValues(t);
+    layer.output.gain.setValueAtTime(layer.output.gain.value, t);
+    layer.output.gain.linearRampToValueAtTime(0, t + fadeSeconds);
+    layer.oscillators.forEach(osc => osc.stop(t + fadeSeconds));
+    layer.oscillators[0].addEventListener('ended', () => layer.output.disconnect());
   }
 
   private scheduleNextNote() {
-    if (this.isMuted || !this.ctx) return;
+    if (!this.isMusicAudible() || !this.ctx || !this.musicLayer) return;
 
     // Play a note
     this.playAmbientNote();
 
-    // Schedule next (irregular timing makes it feel organic)
-    const delay = 3000 + Math.random() * 5000; // 3s to 8s gap
+    // Schedule next (irregular timing makes it feel organic); tenser levels play more often
+    const [minGap, maxGap] = MUSIC_INTENSITY_LEVELS[this.musicIntensity].noteGapMs;
+    const delay = minGap + Math.random() * (maxGap - minGap);
     this.melodyTimer = window.setTimeout(() => this.scheduleNextNote(), delay);
   }
 
   private playAmbientNote() {
     if (!this.ctx || !this.musicGain) return;
-    
-    const t = this.ctx.currentTime;
-    const osc = this.ctx.createOscillator();
-    const env = this.ctx.createGain();
-    
+
     // Pick random note from pentatonic scale
     const freq = this.melodyScale[Math.floor(Math.random() * this.melodyScale.length)];
-    
+    // Soft bell-like, with a long release
+    this.playTone(freq, 'sine', this.ctx.currentTime, 0.1, MUSIC_INTENSITY_LEVELS[this.musicIntensity].noteSeconds);
+  }
+
+  // One enveloped note on the music channel (and so through the delay); its nodes are released when it ends
+  private playTone(freq: number, type: OscillatorType, start: number, peak: number, seconds: number) {
+    const osc = this.ctx!.createOscillator();
+    const env = this.ctx!.createGain();
+    osc.type = type;
     osc.frequency.value = freq;
-    osc.type = 'sine'; // Pure tone
 
-    // Envelope: Soft bell-like
-    env.gain.setValueAtTime(0, t);
-    env.gain.linearRampToValueAtTime(0.1, t + 0.1); // Attack
-    env.gain.exponentialRampToValueAtTime(0.001, t + 4.0); // Long Release
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(peak, start + 0.1); // Attack
+    env.gain.exponentialRampToValueAtTime(0.001, start + seconds); // Release
 
     osc.connect(env);
-    env.connect(this.musicGain); // Goes to delay
+    env.connect(this.musicGain!);
+    osc.onended = () => env.disconnect();
 
-    osc.start(t);
-    osc.stop(t + 4.0);
+    osc.start(start);
+    osc.stop(start + seconds);
   }
 
   // --- Sound Effects ---
 
   public playClick() {
-    if (this.isMuted || !this.ctx || !this.sfxGain) return;
+    if (!this.isSfxAudible() || !this.ctx || !this.sfxGain) return;
     this.ctx.resume();
     
     const t = this.ctx.currentTime;
@@ -198,7 +358,7 @@ class AudioEngine {
   }
 
   public playSelect() {
-    if (this.isMuted || !this.ctx || !this.sfxGain) return;
+    if (!this.isSfxAudible() || !this.ctx || !this.sfxGain) return;
     this.ctx.resume();
 
     const t = this.ctx.currentTime;
@@ -221,7 +381,7 @@ class AudioEngine {
   }
 
   public playSuccess() {
-    if (this.isMuted || !this.ctx || !this.sfxGain) return;
+    if (!this.isSfxAudible() || !this.ctx || !this.sfxGain) return;
     this.ctx.resume();
 
     const t = this.ctx.currentTime;
@@ -251,7 +411,7 @@ class AudioEngine {
   }
 
   public playError() {
-    if (this.isMuted || !this.ctx || !this.sfxGain) return;
+    if (!this.isSfxAudible() || !this.ctx || !this.sfxGain) return;
     this.ctx.resume();
 
     const t = this.ctx.currentTime;
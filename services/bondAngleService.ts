@@ -0,0 +1,59 @@
+// Bond-angle model: ideal VSEPR angles and their lone-pair compressed values
+
+import { MoleculeDef, HybridizationType, OrbitalSlot, SlotType, Vec3 } from "../types";
+import { BOND_ANGLES } from "../constants";
+import { angleBetween } from "./vectorMath";
+
+export interface BondAngle {
+  ideal: number;
+  predicted: number;
+}
+
+export interface AngleArc extends BondAngle {
+  from: Vec3; // Directions of the two bonds the arc spans
+  to: Vec3;
+}
+
+// Angle between two domains of an undistorted layout, to the nearest half degree (109.47° -> 109.5°)
+export const getIdealBondAngle = (a: OrbitalSlot, b: OrbitalSlot) => {
+  return Math.round(angleBetween(a.direction, b.direction) * 2) / 2;
+};
+
+// Two slots are trans when they point in opposite directions
+export const areTrans = (a: OrbitalSlot, b: OrbitalSlot) => getIdealBondAngle(a, b) === 180;
+
+// Falls back to the ideal angle for combinations the table does not list
+export const getPredictedBondAngle = (hybridization: HybridizationType, lonePairs: number, ideal: number) => {
+  return BOND_ANGLES[hybridization][lonePairs]?.[ideal] ?? ideal;
+};
+
+// The smallest bond angle of the molecule, the one students are asked to estimate, or null
+// when the table lists none (fewer than two bonds)
+export const getPrincipalBondAngle = (molecule: MoleculeDef): BondAngle | null => {
+  const angles = BOND_ANGLES[molecule.hybridization][molecule.lonePairs];
+  const ideals = Object.keys(angles ?? {}).map(Number);
+  if (!angles || ideals.length === 0) return null;
+  const ideal = Math.min(...ideals);
+  return { ideal, predicted: angles[ideal] };
+};
+
+// One arc for each distinct angle between the bonds, smallest first. The 180° between
+// opposite bonds is only shown when the molecule has no other angle.
+export const getAngleArcs = (hybridization: HybridizationType, slots: OrbitalSlot[]): AngleArc[] => {
+  const bonds = slots.filter(s => s.type === SlotType.BOND);
+  const lonePairs = slots.filter(s => s.type === SlotType.LONE_PAIR).length;
+  const arcs = new Map<number, AngleArc>();
+
+  bonds.forEach((a, i) => bonds.slice(i + 1).forEach(b => {
+    const ideal = getIdealBondAngle(a, b);
+    if (arcs.has(ideal) || (ideal === 180 && bonds.length > 2)) return;
+    arcs.set(ideal, {
+      from: a.direction,
+      to: b.direction,
+      ideal,
+      predicted: getPredictedBondAngle(hybridization, lonePairs, ideal)
+    });
+  }));
+
+  return [...arcs.values()].sort((a, b) => a.ideal - b.ideal);
+};
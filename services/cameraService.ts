@@ -0,0 +1,36 @@
+// The visualizer's camera: turns model-space points into the view and projects them onto the screen
+
+import { Vec3, ViewCamera } from "../types";
+import { VISUAL_CONFIG } from "../constants";
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+  depth: number; // Distance toward the viewer after rotation; larger is nearer
+  scale: number; // Perspective factor at that depth
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Yaw about the vertical axis, then pitch about the horizontal one
+export const rotateToView = ([x, y, z]: Vec3, { yaw, pitch }: ViewCamera): Vec3 => {
+  const yawed: Vec3 = [
+    x * Math.cos(toRadians(yaw)) + z * Math.sin(toRadians(yaw)),
+    y,
+    -x * Math.sin(toRadians(yaw)) + z * Math.cos(toRadians(yaw))
+  ];
+  return [
+    yawed[0],
+    yawed[1] * Math.cos(toRadians(pitch)) - yawed[2] * Math.sin(toRadians(pitch)),
+    yawed[1] * Math.sin(toRadians(pitch)) + yawed[2] * Math.cos(toRadians(pitch))
+  ];
+};
+
+// Perspective projection of a point given in screen units around the central atom
+export const projectPoint = (point: Vec3, camera: ViewCamera): ScreenPoint => {
+  const [x, y, depth] = rotateToView(point, camera);
+  const scale = VISUAL_CONFIG.CAMERA_DISTANCE / (VISUAL_CONFIG.CAMERA_DISTANCE - depth);
+  return { x: x * scale, y: y * scale, depth, scale };
+};
+
+export const clampPitch = (pitch: number) => Math.max(-90, Math.min(90, pitch));
@@ -0,0 +1,55 @@
+// Summarizes the player's current slot arrangement so hints can address what they built
+
+import { HybridizationType, MoleculeDef, OrbitalSlot, PositionContents, SlotType, StructureDiagnosis } from "../types";
+import { BOND_ORDER_SYMBOLS } from "../constants";
+import { areTrans } from "./bondAngleService";
+import { validateStructure } from "./validationService";
+
+const describeBondedAtom = (slot: OrbitalSlot) => {
+  const bondOrder = slot.bondOrder ?? 1;
+  return `${slot.ligand ?? '?'}${bondOrder > 1 ? BOND_ORDER_SYMBOLS[bondOrder - 1] : ''}`;
+};
+
+export const diagnoseStructure = (
+  molecule: MoleculeDef,
+  hybridization: HybridizationType,
+  slots: OrbitalSlot[]
+): StructureDiagnosis => {
+  const bondSlots = slots.filter(s => s.type === SlotType.BOND);
+  const lonePairSlots = slots.filter(s => s.type === SlotType.LONE_PAIR);
+
+  const ligands: Record<string, number> = {};
+  bondSlots.forEach(slot => {
+    const atom = slot.ligand ?? '?';
+    ligands[atom] = (ligands[atom] || 0) + 1;
+  });
+
+  const positions: StructureDiagnosis['positions'] = {};
+  slots.forEach(slot => {
+    const contents: PositionContents = positions[slot.positionType] ?? { bonds: 0, lonePairs: 0, empty: 0, ligands: [] };
+    if (slot.type === SlotType.BOND) {
+      contents.bonds++;
+      contents.ligands.push(describeBondedAtom(slot));
+    } else if (slot.type === SlotType.LONE_PAIR) {
+      contents.lonePairs++;
+    } else {
+      contents.empty++;
+    }
+    positions[slot.positionType] = contents;
+  });
+
+  const { failure } = validateStructure(molecule, hybridization, slots);
+
+  return {
+    hybridization,
+    stericNumber: slots.length,
+    bonds: bondSlots.length,
+    lonePairs: lonePairSlots.length,
+    empty: slots.length - bondSlots.length - lonePairSlots.length,
+    ligands,
+    multipleBonds: bondSlots.filter(s => (s.bondOrder ?? 1) > 1).length,
+    positions,
+    lonePairsTrans: lonePairSlots.some((slot, i) => lonePairSlots.slice(i + 1).some(other => areTrans(slot, other))),
+    ...(failure ? { failure } : {})
+  };
+};
@@ -0,0 +1,173 @@
+// Exports of the built structure: coordinate files for chemistry viewers and images of the visualizer
+
+import { MoleculeDef, OrbitalSlot, SlotType, Vec3 } from "../types";
+import { COVALENT_RADII, BOND_LENGTH_FACTORS, LONE_PAIR_DISTANCE, GEOMETRY_NAMES, HYBRIDIZATION_BY_STERIC_NUMBER } from "../constants";
+import { computeFormalCharges } from "./lewisService";
+import { scale } from "./vectorMath";
+
+export interface ExportAtom {
+  element: string;
+  position: Vec3; // Ångströms, central atom at the origin
+  bondOrder?: number; // Bond to the central atom, for ligands
+  charge: number;
+}
+
+export interface ExportStructure {
+  atoms: ExportAtom[]; // The central atom first, then the ligands in slot order
+  lonePairs: Vec3[];
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// e.g. "SO₄²⁻" -> "SO4 2-", for file names and formats that expect ASCII
+const toAsciiFormula = (formula: string) => formula
+  .replace(/[₀-₉]/g, d => String(SUBSCRIPTS.indexOf(d)))
+  .replace(/([⁰¹²³⁴⁵⁶⁷⁸⁹]*[⁺⁻])$/, charge => ` ${charge}`)
+  .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, d => String(SUPERSCRIPTS.indexOf(d)))
+  .replace('⁺', '+')
+  .replace('⁻', '-');
+
+export const getExportFileName = (molecule: MoleculeDef, extension: string) => {
+  return `${toAsciiFormula(molecule.formula).replace(/\s+/g, '').replace(/[^A-Za-z0-9+-]/g, '')}-structure.${extension}`;
+};
+
+// Slot directions point y down toward the screen's bottom; files expect y up, so turn the
+// structure half a turn about the x axis (a rotation, so the handedness is kept)
+const toFileAxes = ([x, y, z]: Vec3): Vec3 => [x, -y, -z];
+
+// Unknown elements fall back to a carbon-sized radius
+const getBondLength = (centralAtom: string, ligand: string, bondOrder: number) => {
+  const radii = (COVALENT_RADII[centralAtom] ?? COVALENT_RADII.C) + (COVALENT_RADII[ligand] ?? COVALENT_RADII.C);
+  return radii * (BOND_LENGTH_FACTORS[bondOrder - 1] ?? 1);
+};
+
+// Places the ligands at typical bond lengths along their slot directions
+export const buildExportStructure = (molecule: MoleculeDef, slots: OrbitalSlot[]): ExportStructure => {
+  const charges = computeFormalCharges(molecule.centralAtom, slots, molecule.ligands);
+  const bonds = slots.filter(slot => slot.type === SlotType.BOND && slot.ligand);
+
+  return {
+    atoms: [
+      { element: molecule.centralAtom, position: [0, 0, 0], charge: charges.central },
+      ...bonds.map(slot => ({
+        element: slot.ligand!,
+        position: toFileAxes(scale(slot.direction, getBondLength(molecule.centralAtom, slot.ligand!, slot.bondOrder ?? 1))),
+        bondOrder: slot.bondOrder ?? 1,
+        charge: charges.ligands[slot.id] ?? 0
+      }))
+    ],
+    lonePairs: slots
+      .filter(slot => slot.type === SlotType.LONE_PAIR)
+      .map(slot => toFileAxes(scale(slot.direction, LONE_PAIR_DISTANCE)))
+  };
+};
+
+// Fixed decimals without a "-0.0000"
+const formatCoordinate = (value: number, width: number) => {
+  return (Math.abs(value) < 5e-5 ? 0 : value).toFixed(4).padStart(width);
+};
+
+const describeArrangement = (molecule: MoleculeDef, slots: OrbitalSlot[]) => {
+  const hybridization = HYBRIDIZATION_BY_STERIC_NUMBER[slots.length];
+  return `${molecule.name} (${toAsciiFormula(molecule.formula)}), ${hybridization ? GEOMETRY_NAMES[hybridization] : 'custom'} electron geometry`;
+};
+
+// XYZ has no dummy atoms every viewer accepts, so the lone pairs go in the comment line
+export const buildXyz = (molecule: MoleculeDef, slots: OrbitalSlot[]) => {
+  const { atoms, lonePairs } = buildExportStructure(molecule, slots);
+  const lonePairNote = lonePairs.length > 0
+    ? `; lone pairs on ${molecule.centralAtom} toward ${lonePairs.map(p => `(${p.map(v => formatCoordinate(v, 0)).join(', ')})`).join(' ')}`
+    : '';
+
+  return [
+    String(atoms.length),
+    `${describeArrangement(molecule, slots)}${lonePairNote}`,
+    ...atoms.map(atom => `${atom.element.padEnd(2)} ${atom.position.map(v => formatCoordinate(v, 12)).join(' ')}`)
+  ].join('\n') + '\n';
+};
+
+const pad = (value: number | string, width: number) => String(value).padStart(width);
+
+// MDL V2000 molfile. Lone pairs are "LP" atoms, which the format reserves for them; they
+// carry no bonds so viewers do not count them toward the central atom's valence.
+export const buildMolFile = (molecule: MoleculeDef, slots: OrbitalSlot[], date = new Date()) => {
+  const { atoms, lonePairs } = buildExportStructure(molecule, slots);
+  const allAtoms = [...atoms, ...lonePairs.map(position => ({ element: 'LP', position, charge: 0 }))];
+  const bonds = atoms.slice(1);
+  const charged = allAtoms.map((atom, i) => ({ index: i + 1, charge: atom.charge })).filter(atom => atom.charge !== 0);
+
+  // Program line: initials, program name, MMDDYYHHmm and the dimension code
+  const stamp = [date.getMonth() + 1, date.getDate(), date.getFullYear() % 100, date.getHours(), date.getMinutes()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('');
+
+  const chargeLines: string[] = [];
+  for (let i = 0; i < charged.length; i += 8) {
+    const group = charged.slice(i, i + 8);
+    chargeLines.push(`M  CHG${pad(group.length, 3)}${group.map(atom => `${pad(atom.index, 4)}${pad(atom.charge, 4)}`).join('')}`);
+  }
+
+  return [
+    describeArrangement(molecule, slots),
+    `  ${'VSEPRL3'.padEnd(8)}${stamp}3D`,
+    lonePairs.length > 0 ? `${lonePairs.length} lone pair(s) as LP atoms` : '',
+    `${pad(allAtoms.length, 3)}${pad(bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`,
+    ...allAtoms.map(atom =>
+      `${atom.position.map(v => formatCoordinate(v, 10)).join('')} ${atom.element.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`
+    ),
+    ...bonds.map((atom, i) => `${pad(1, 3)}${pad(i + 2, 3)}${pad(atom.bondOrder ?? 1, 3)}  0`),
+    ...chargeLines,
+    'M  END'
+  ].join('\n') + '\n';
+};
+
+// Tailwind classes the visualizer's text relies on, for an SVG shown outside the app
+const EXPORT_SVG_STYLE = `
+  text { font-family: ui-sans-serif, system-ui, sans-serif; }
+  .font-mono { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  .font-bold { font-weight: 700; }
+`;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const EXPORT_BACKGROUND = '#0f172a'; // Slate 900, the card behind the visualizer
+
+// A standalone copy of the visualizer's SVG with its background and text styles inlined
+export const serializeStructureSvg = (svg: SVGSVGElement, size: number) => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const [x, y, width, height] = (copy.getAttribute('viewBox') ?? '-150 -150 300 300').split(/\s+/);
+  copy.setAttribute('xmlns', SVG_NS);
+  copy.setAttribute('width', String(size));
+  copy.setAttribute('height', String(size));
+  ['class', 'style', 'role', 'aria-label'].forEach(attribute => copy.removeAttribute(attribute));
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = EXPORT_SVG_STYLE;
+  const background = document.createElementNS(SVG_NS, 'rect');
+  Object.entries({ x, y, width, height, fill: EXPORT_BACKGROUND }).forEach(([name, value]) => background.setAttribute(name, value));
+  copy.insertBefore(background, copy.firstChild);
+  copy.insertBefore(style, copy.firstChild);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(copy)}`;
+};
+
+// Draws the serialized SVG onto a canvas; resolves with the PNG
+export const renderSvgToPng = (svgText: string, size: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('This browser cannot draw to a canvas.'));
+        return;
+      }
+      context.drawImage(image, 0, 0, size, size);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The PNG could not be encoded.'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('The structure image could not be rendered.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`;
+  });
+};
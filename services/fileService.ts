@@ -0,0 +1,13 @@
+// Browser file helpers shared by the exporters
+
+// Saves content through a temporary download link
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,193 @@
+// Procedurally generated AXnEm challenges. Candidates are enumerated from the center and
+// ligand tables, checked like any level pack entry, then drawn with a seeded generator so
+// the same seed and difficulty always give the same pack.
+
+import { ChallengeDifficulty, GeneratorCenter, HybridizationType, LevelPack, LigandDef, MoleculeDef } from "../types";
+import {
+  ELEMENT_NAMES,
+  LIGAND_NAME_ROOTS,
+  GENERATOR_CENTERS,
+  DIFFICULTY_BANDS,
+  DEFAULT_CHALLENGE_COUNT,
+  GEOMETRY_NAMES,
+  MOLECULAR_SHAPE_NAMES,
+  LEVEL_PACK_FORMAT_VERSION,
+  MOLECULES
+} from "../constants";
+import { buildMoleculeDef, deriveLewisData, formatFormula, validateMoleculeDef } from "./lewisService";
+import { buildReferenceSlots, suggestGeometryRules } from "./structureService";
+
+export interface GeneratorOptions {
+  seed: number;
+  difficulty: ChallengeDifficulty;
+  count?: number;
+}
+
+// mulberry32: small, fast and good enough to shuffle a level pack
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const NUMBER_PREFIXES = ['', 'Mono', 'Di', 'Tri', 'Tetra', 'Penta', 'Hexa', 'Hepta', 'Octa'];
+
+// "Tetra" + "oxide" -> "Tetroxide"; a single atom takes no prefix
+const prefixed = (count: number, root: string) => {
+  if (count === 1) return root.charAt(0).toUpperCase() + root.slice(1);
+  const prefix = NUMBER_PREFIXES[count];
+  return /[ao]$/.test(prefix) && root.startsWith('o') ? prefix.slice(0, -1) + root : prefix + root;
+};
+
+// Binary-compound style names, e.g. "Xenon Dioxide Difluoride", "Iodine Tetrachloride Anion"
+const buildName = (center: GeneratorCenter, ligands: LigandDef[]) => {
+  const parts = [ELEMENT_NAMES[center.atom], ...ligands.map(l => prefixed(l.count, LIGAND_NAME_ROOTS[l.atom]))];
+  if (center.charge) parts.push(center.charge > 0 ? 'Cation' : 'Anion');
+  return parts.join(' ');
+};
+
+// Formula order: central atom, oxygens, then the halogen
+const buildFormula = (center: GeneratorCenter, ligands: LigandDef[]) => {
+  const body = center.atom + ligands.map(l => `${l.atom}${l.count > 1 ? l.count : ''}`).join('');
+  const charge = center.charge ?? 0;
+  const sign = charge === 0 ? '' : `${Math.abs(charge) > 1 ? ` ${Math.abs(charge)}` : ''}${charge > 0 ? '+' : '-'}`;
+  return formatFormula(body + sign);
+};
+
+const buildDescription = (molecule: MoleculeDef, centralElectrons: number) => {
+  const shape = MOLECULAR_SHAPE_NAMES[molecule.hybridization][molecule.lonePairs];
+  const lonePairs = `${molecule.lonePairs} lone pair${molecule.lonePairs === 1 ? '' : 's'}`;
+  const sentences = [
+    molecule.lonePairs > 0
+      ? `${shape}. ${GEOMETRY_NAMES[molecule.hybridization]} electron layout with ${lonePairs} on ${molecule.centralAtom}.`
+      : `${shape}. Every electron domain is a bond.`
+  ];
+  if (centralElectrons > 8) sentences.push(`${ELEMENT_NAMES[molecule.centralAtom]} holds an expanded octet of ${centralElectrons} electrons.`);
+  if (molecule.ligands.some(l => (l.bondOrder ?? 1) > 1)) {
+    sentences.push(`Each ${molecule.centralAtom}=O double bond counts as one electron domain.`);
+  }
+  return sentences.join(' ');
+};
+
+// Builds the challenge for one ligand set, or null when it is not a valid AXnEm structure
+const buildCandidate = (center: GeneratorCenter, ligands: LigandDef[]): MoleculeDef | null => {
+  const charge = center.charge ?? 0;
+  let lewis;
+  try {
+    lewis = deriveLewisData(center.atom, ligands, charge);
+  } catch {
+    return null;
+  }
+
+  const halogen = ligands.find(l => l.atom !== 'O');
+  if (lewis.centralElectrons > 8 && halogen && !(center.expandedHalogens ?? []).includes(halogen.atom)) return null;
+  if (lewis.bondingPairs < 2 || MOLECULAR_SHAPE_NAMES[lewis.hybridization][lewis.lonePairs] === undefined) return null;
+
+  const base = buildMoleculeDef({
+    formula: buildFormula(center, ligands),
+    name: buildName(center, ligands),
+    centralAtom: center.atom,
+    ligands,
+    ...(charge !== 0 ? { charge } : {}),
+    description: ''
+  });
+  const geometryRules = suggestGeometryRules(base);
+  const molecule: MoleculeDef = {
+    ...base,
+    description: buildDescription(base, lewis.centralElectrons),
+    ...(geometryRules ? { geometryRules } : {})
+  };
+
+  if (validateMoleculeDef(molecule).length > 0 || !buildReferenceSlots(molecule)) return null;
+  return molecule;
+};
+
+// Every valid challenge the tables allow, in table order. The tables only know double-bonded
+// oxygen, so a formula the built-in set already has (SO₂ with one single and one double bond)
+// takes the built-in entry, keeping one answer per formula.
+export const enumerateChallenges = (): MoleculeDef[] => {
+  return GENERATOR_CENTERS.flatMap(center => center.valences.flatMap(valence => {
+    const maxOxo = valence >= 4 ? Math.min(center.maxOxo ?? 0, Math.floor(valence / 2)) : 0;
+    const candidates: MoleculeDef[] = [];
+
+    for (let oxo = 0; oxo <= maxOxo; oxo++) {
+      const halogenCount = valence - 2 * oxo;
+      const oxygens: LigandDef[] = oxo > 0 ? [{ atom: 'O', count: oxo, bondOrder: 2 }] : [];
+      const halogenSets = halogenCount > 0 ? center.halogens.map(atom => [{ atom, count: halogenCount }]) : [[]];
+
+      halogenSets.forEach(halogens => {
+        const molecule = buildCandidate(center, [...oxygens, ...halogens]);
+        if (molecule) candidates.push(MOLECULES.find(m => m.formula === molecule.formula) ?? molecule);
+      });
+    }
+    return candidates;
+  }));
+};
+
+// One point for each thing that makes a structure harder to get right
+export const getDifficultyScore = (molecule: MoleculeDef) => {
+  return [
+    molecule.lonePairs > 0,
+    molecule.ligands.length > 1,
+    molecule.ligands.some(l => (l.bondOrder ?? 1) > 1),
+    !!molecule.geometryRules,
+    (molecule.charge ?? 0) !== 0
+  ].filter(Boolean).length;
+};
+
+const pick = <T>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+// Distance of a score from a band, 0 inside it
+const getBandDistance = (score: number, difficulty: ChallengeDifficulty) => {
+  const { min, max } = DIFFICULTY_BANDS[difficulty];
+  return score < min ? min - score : score > max ? score - max : 0;
+};
+
+export const generateChallenges = ({ seed, difficulty, count = DEFAULT_CHALLENGE_COUNT }: GeneratorOptions): MoleculeDef[] => {
+  const random = createRandom(seed);
+  const pool = enumerateChallenges();
+  const chosen: MoleculeDef[] = [];
+  const hybridizations = Object.values(HybridizationType);
+
+  // One per hybridization first, as close to the requested difficulty as that layout allows
+  hybridizations.forEach(hybridization => {
+    const options = pool.filter(m => m.hybridization === hybridization);
+    const closest = Math.min(...options.map(m => getBandDistance(getDifficultyScore(m), difficulty)));
+    chosen.push(pick(options.filter(m => getBandDistance(getDifficultyScore(m), difficulty) === closest), random));
+  });
+
+  // Then fill from the band, falling back to the rest of the pool if the band runs out
+  const remaining = pool.filter(m => !chosen.includes(m));
+  const inBand = remaining.filter(m => getBandDistance(getDifficultyScore(m), difficulty) === 0);
+  const outOfBand = remaining.filter(m => !inBand.includes(m));
+  const total = Math.max(count, hybridizations.length);
+  for (const source of [inBand, outOfBand]) {
+    while (chosen.length < total && source.length > 0) {
+      chosen.push(source.splice(Math.floor(random() * source.length), 1)[0]);
+    }
+  }
+
+  // Simple layouts first, like the built-in pack
+  return chosen.sort((a, b) =>
+    a.stericNumber - b.stericNumber || a.lonePairs - b.lonePairs || getDifficultyScore(a) - getDifficultyScore(b)
+  );
+};
+
+export const generateLevelPack = (options: GeneratorOptions): LevelPack => {
+  const { label } = DIFFICULTY_BANDS[options.difficulty];
+  return {
+    formatVersion: LEVEL_PACK_FORMAT_VERSION,
+    id: `generated-${options.difficulty}-${options.seed}`,
+    title: `Generated Challenge · ${label} · Seed ${options.seed}`,
+    description: `Procedurally generated AXnEm challenges. Enter seed ${options.seed} on ${label} to replay this exact set.`,
+    author: 'Challenge Generator',
+    molecules: generateChallenges(options)
+  };
+};
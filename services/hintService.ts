@@ -0,0 +1,93 @@
+// Chooses the hint provider from configuration (.env.local, injected by vite.config.ts).
+// Any provider failure, timeout or rejected reply falls back to the offline tutor so a hint
+// always arrives; only a call the caller aborts itself ends without one.
+
+import { HintCallOptions, HintProvider, HintProviderId, HintRequest, MoleculeDef, StructuredHint } from "../types";
+import { HINT_TIMEOUT_MS } from "../constants";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openaiService";
+import { offlineTutor } from "./tutorService";
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const createProvider = (): HintProvider => {
+  const geminiKey = process.env.API_KEY;
+  const configured = process.env.HINT_PROVIDER?.trim().toLowerCase();
+  const id = configured || (geminiKey ? HintProviderId.GEMINI : HintProviderId.OFFLINE);
+
+  switch (id) {
+    case HintProviderId.GEMINI:
+      if (!geminiKey) {
+        console.warn("HINT_PROVIDER is gemini but GEMINI_API_KEY is missing; using the offline tutor.");
+        return offlineTutor;
+      }
+      return createGeminiProvider(geminiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    case HintProviderId.OPENAI:
+      if (!process.env.OPENAI_MODEL) {
+        console.warn("HINT_PROVIDER is openai but OPENAI_MODEL is missing; using the offline tutor.");
+        return offlineTutor;
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: process.env.OPENAI_MODEL,
+        apiKey: process.env.OPENAI_API_KEY || undefined
+      });
+    case HintProviderId.OFFLINE:
+      return offlineTutor;
+    default:
+      console.warn(`Unknown HINT_PROVIDER "${id}"; using the offline tutor.`);
+      return offlineTutor;
+  }
+};
+
+export const hintProvider = createProvider();
+
+// Hints already revealed, per tier and the situation they were written for: the whole sample
+// (packs can hold different samples with one formula), the latest error and the arrangement
+// on screen. Changing the structure asks again instead of replaying an outdated hint.
+const hintCache = new Map<string, StructuredHint>();
+
+const getCacheKey = ({ molecule, tier, currentError, failure, diagnosis }: HintRequest) => {
+  return JSON.stringify([tier, molecule, currentError ?? null, failure ?? null, diagnosis ?? null]);
+};
+
+// Runs a provider call that is aborted by the caller's signal or after HINT_TIMEOUT_MS
+const withTimeout = async <T>(call: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`No response within ${HINT_TIMEOUT_MS / 1000}s.`)), HINT_TIMEOUT_MS);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort);
+  try {
+    return await call(controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const getHint = async (request: HintRequest, { signal, onText }: HintCallOptions = {}): Promise<StructuredHint> => {
+  const cached = hintCache.get(getCacheKey(request));
+  if (cached) return cached;
+
+  try {
+    const hint = await withTimeout(timed => hintProvider.getHint(request, { signal: timed, onText }), signal);
+    hintCache.set(getCacheKey(request), hint);
+    return hint;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`${hintProvider.label} hint failed:`, error);
+    return offlineTutor.getHint(request);
+  }
+};
+
+export const getSuccessMessage = async (molecule: MoleculeDef, { signal, onText }: HintCallOptions = {}): Promise<string> => {
+  try {
+    return await withTimeout(timed => hintProvider.getSuccessMessage(molecule, { signal: timed, onText }), signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`${hintProvider.label} success message failed:`, error);
+    return offlineTutor.getSuccessMessage(molecule);
+  }
+};
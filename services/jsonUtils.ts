@@ -0,0 +1,7 @@
+// Small helpers for reading parsed JSON of unknown shape
+
+export type Json = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Json => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,234 @@
+// Level packs: JSON files describing a sequence of MoleculeDef entries plus pack metadata.
+// Every pack is checked against the schema below and against its electron counts before use.
+
+import { LevelPack, MoleculeDef, LigandDef, GeometryRules, HybridizationType, OrbitalPositionType, SlotType } from "../types";
+import { LEVEL_PACK_FORMAT_VERSION } from "../constants";
+import { validateMoleculeDef } from "./lewisService";
+import { buildReferenceSlots } from "./structureService";
+import { Json, isObject } from "./jsonUtils";
+
+export class LevelPackError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid level pack:\n- ${errors.join('\n- ')}`);
+    this.name = 'LevelPackError';
+    this.errors = errors;
+  }
+}
+
+// ASCII spellings teachers are likely to type in a JSON file
+const HYBRIDIZATION_ALIASES: Record<string, HybridizationType> = {
+  sp: HybridizationType.SP,
+  sp2: HybridizationType.SP2,
+  sp3: HybridizationType.SP3,
+  sp3d: HybridizationType.SP3D,
+  sp3d2: HybridizationType.SP3D2
+};
+
+// --- Field checks: each pushes a message naming the JSON path and returns the cleaned value ---
+
+const readString = (obj: Json, key: string, path: string, errors: string[], optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path}.${key} must be a non-empty string.`);
+    return undefined;
+  }
+  return value;
+};
+
+const readInteger = (obj: Json, key: string, path: string, errors: string[], min: number, optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    errors.push(`${path}.${key} must be an integer of at least ${min}.`);
+    return undefined;
+  }
+  return value;
+};
+
+const readEnum = <T extends string>(
+  value: unknown,
+  allowed: T[],
+  path: string,
+  errors: string[],
+  aliases: Record<string, T> = {}
+) => {
+  if (typeof value === 'string') {
+    if ((allowed as string[]).includes(value)) return value as T;
+    if (aliases[value.toLowerCase()]) return aliases[value.toLowerCase()];
+  }
+  errors.push(`${path} must be one of: ${allowed.join(', ')}.`);
+  return undefined;
+};
+
+const readLigands = (value: unknown, path: string, errors: string[]): LigandDef[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path} must be a non-empty array of { atom, count, bondOrder?, externalBonds? }.`);
+    return [];
+  }
+
+  return value.flatMap((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${itemPath} must be an object.`);
+      return [];
+    }
+    const atom = readString(item, 'atom', itemPath, errors);
+    const count = readInteger(item, 'count', itemPath, errors, 1);
+    const bondOrder = readInteger(item, 'bondOrder', itemPath, errors, 1, true);
+    if (bondOrder !== undefined && bondOrder > 3) {
+      errors.push(`${itemPath}.bondOrder must be 1, 2 or 3.`);
+    }
+    const externalBonds = readInteger(item, 'externalBonds', itemPath, errors, 0, true);
+    if (atom === undefined || count === undefined) return [];
+    return [{
+      atom,
+      count,
+      ...(bondOrder !== undefined ? { bondOrder } : {}),
+      ...(externalBonds ? { externalBonds } : {})
+    }];
+  });
+};
+
+const readGeometryRules = (value: unknown, path: string, errors: string[]): GeometryRules | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object.`);
+    return undefined;
+  }
+
+  const rules: GeometryRules = {};
+  if (value.lonePairsMustBe !== undefined) {
+    rules.lonePairsMustBe = readEnum(value.lonePairsMustBe, Object.values(OrbitalPositionType), `${path}.lonePairsMustBe`, errors);
+  }
+  if (value.axialMustBe !== undefined) {
+    rules.axialMustBe = readEnum(value.axialMustBe, Object.values(SlotType), `${path}.axialMustBe`, errors);
+  }
+  if (value.lonePairsTrans !== undefined) {
+    if (typeof value.lonePairsTrans !== 'boolean') errors.push(`${path}.lonePairsTrans must be true or false.`);
+    else rules.lonePairsTrans = value.lonePairsTrans;
+  }
+  if (value.axialLigand !== undefined) {
+    rules.axialLigand = readString(value, 'axialLigand', path, errors);
+  }
+  return rules;
+};
+
+const readMolecule = (value: unknown, path: string, errors: string[]): MoleculeDef | null => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object.`);
+    return null;
+  }
+
+  const fieldErrors: string[] = [];
+  const molecule = {
+    formula: readString(value, 'formula', path, fieldErrors),
+    name: readString(value, 'name', path, fieldErrors),
+    centralAtom: readString(value, 'centralAtom', path, fieldErrors),
+    ligands: readLigands(value.ligands, `${path}.ligands`, fieldErrors),
+    charge: typeof value.charge === 'number' && Number.isInteger(value.charge) ? value.charge : undefined,
+    bondingPairs: readInteger(value, 'bondingPairs', path, fieldErrors, 1),
+    lonePairs: readInteger(value, 'lonePairs', path, fieldErrors, 0),
+    stericNumber: readInteger(value, 'stericNumber', path, fieldErrors, 2),
+    hybridization: readEnum(value.hybridization, Object.values(HybridizationType), `${path}.hybridization`, fieldErrors, HYBRIDIZATION_ALIASES),
+    description: readString(value, 'description', path, fieldErrors),
+    geometryRules: readGeometryRules(value.geometryRules, `${path}.geometryRules`, fieldErrors)
+  };
+
+  if (value.charge !== undefined && molecule.charge === undefined) {
+    fieldErrors.push(`${path}.charge must be an integer.`);
+  }
+
+  errors.push(...fieldErrors);
+  return fieldErrors.length === 0 ? (molecule as MoleculeDef) : null;
+};
+
+// Schema and chemistry checks; returns the cleaned pack and every problem found
+export const validateLevelPack = (data: unknown): { pack: LevelPack | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { pack: null, errors: ['The pack must be a JSON object.'] };
+  }
+
+  if (data.formatVersion !== LEVEL_PACK_FORMAT_VERSION) {
+    errors.push(`formatVersion must be ${LEVEL_PACK_FORMAT_VERSION}.`);
+  }
+
+  const id = readString(data, 'id', 'pack', errors);
+  const title = readString(data, 'title', 'pack', errors);
+  const description = readString(data, 'description', 'pack', errors, true);
+  const author = readString(data, 'author', 'pack', errors, true);
+
+  if (!Array.isArray(data.molecules) || data.molecules.length === 0) {
+    errors.push('pack.molecules must be a non-empty array.');
+    return { pack: null, errors };
+  }
+
+  const molecules = data.molecules.map((item, i) => {
+    const path = `molecules[${i}]`;
+    const molecule = readMolecule(item, path, errors);
+    if (!molecule) return null;
+
+    // A schema-valid entry can still describe the wrong answer
+    const issues = validateMoleculeDef(molecule);
+    if (issues.length > 0) {
+      errors.push(...issues.map(issue => `${path} (${molecule.formula}): ${issue}`));
+    } else if (!buildReferenceSlots(molecule)) {
+      errors.push(`${path} (${molecule.formula}): no arrangement of its domains satisfies its geometryRules.`);
+    }
+    return molecule;
+  });
+
+  if (errors.length > 0 || !id || !title) {
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      formatVersion: LEVEL_PACK_FORMAT_VERSION,
+      id,
+      title,
+      ...(description ? { description } : {}),
+      ...(author ? { author } : {}),
+      molecules: molecules as MoleculeDef[]
+    },
+    errors
+  };
+};
+
+export const parseLevelPack = (text: string): LevelPack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LevelPackError([`The file is not valid JSON: ${(error as Error).message}`]);
+  }
+
+  const { pack, errors } = validateLevelPack(data);
+  if (!pack) throw new LevelPackError(errors);
+  return pack;
+};
+
+export const loadLevelPackFromFile = async (file: File) => {
+  return parseLevelPack(await file.text());
+};
+
+export const loadLevelPackFromUrl = async (url: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new LevelPackError([`Could not reach ${url}: ${(error as Error).message}`]);
+  }
+
+  if (!response.ok) {
+    throw new LevelPackError([`${url} responded with ${response.status} ${response.statusText}.`]);
+  }
+  return parseLevelPack(await response.text());
+};
+
+// Serializes a pack in the same format the loader accepts
+export const serializeLevelPack = (pack: LevelPack) => JSON.stringify(pack, null, 2);
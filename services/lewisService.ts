@@ -0,0 +1,291 @@
+// Electron counting for AXnEm molecules
+// Derives the Lewis-structure data (lone pairs, steric number, hybridization)
+// from the central atom, its ligands and the ionic charge.
+
+import { MoleculeDef, LigandDef, LewisData, OrbitalSlot, SlotType, FormalCharges } from "../types";
+import { VALENCE_ELECTRONS, HYBRIDIZATION_BY_STERIC_NUMBER, MOLECULAR_SHAPE_NAMES, GEOMETRY_NAMES } from "../constants";
+
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// Second-period atoms have no d orbitals and cannot expand their octet
+export const OCTET_LIMITED_ATOMS = ['H', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F'];
+
+export interface ParsedFormula {
+  elements: Record<string, number>;
+  charge: number;
+}
+
+const getValenceElectrons = (atom: string) => {
+  const valence = VALENCE_ELECTRONS[atom];
+  if (valence === undefined) {
+    throw new Error(`Unknown element "${atom}".`);
+  }
+  return valence;
+};
+
+// Electrons a terminal ligand needs to complete its own shell (duet for H, octet otherwise)
+const getShellSize = (atom: string) => (atom === 'H' ? 2 : 8);
+
+const getBondOrder = (item: { bondOrder?: number }) => item.bondOrder ?? 1;
+
+// Formal charge of a ligand whose shell is complete: V - nonbonding - bonds
+const getLigandFormalCharge = (atom: string, bondOrder: number, externalBonds = 0) => {
+  const bonds = bondOrder + externalBonds;
+  return getValenceElectrons(atom) - (getShellSize(atom) - 2 * bonds) - bonds;
+};
+
+const getCentralFormalCharge = (centralAtom: string, lonePairs: number, bondOrderSum: number) => {
+  return getValenceElectrons(centralAtom) - 2 * lonePairs - bondOrderSum;
+};
+
+// Parses formulas such as 'ClO₃⁻', 'H₂O' or 'NH4+' into element counts and charge
+export const parseFormula = (formula: string): ParsedFormula => {
+  const elements: Record<string, number> = {};
+  let charge = 0;
+  let i = 0;
+
+  const readDigits = (digits: string) => {
+    let value = '';
+    while (i < formula.length) {
+      const char = formula[i];
+      const sub = digits.indexOf(char);
+      if (sub >= 0) value += sub;
+      else if (char >= '0' && char <= '9') value += char;
+      else break;
+      i++;
+    }
+    return value;
+  };
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (char >= 'A' && char <= 'Z') {
+      let symbol = char;
+      i++;
+      while (i < formula.length && formula[i] >= 'a' && formula[i] <= 'z') {
+        symbol += formula[i++];
+      }
+      const count = readDigits(SUBSCRIPT_DIGITS);
+      elements[symbol] = (elements[symbol] || 0) + (count ? parseInt(count, 10) : 1);
+    } else if (SUPERSCRIPT_DIGITS.includes(char) || char === '⁺' || char === '⁻' || char === '+' || char === '-' || char === '^') {
+      if (char === '^') i++;
+      const magnitude = readDigits(SUPERSCRIPT_DIGITS);
+      const sign = formula[i];
+      if (sign !== '⁺' && sign !== '⁻' && sign !== '+' && sign !== '-') {
+        throw new Error(`Malformed charge in "${formula}".`);
+      }
+      i++;
+      charge += (sign === '⁺' || sign === '+' ? 1 : -1) * (magnitude ? parseInt(magnitude, 10) : 1);
+    } else if (char === ' ') {
+      i++;
+    } else {
+      throw new Error(`Unexpected character "${char}" in "${formula}".`);
+    }
+  }
+
+  return { elements, charge };
+};
+
+// Formats typed formulas for display: 'ClO3-' -> 'ClO₃⁻', 'SO4^2-' or 'SO4 2-' -> 'SO₄²⁻'.
+// Digits written directly before the sign are subscripts, so a charge above 1 needs the separator.
+export const formatFormula = (input: string) => {
+  const match = input.trim().match(/^(.+?)(?:[\s^](\d*)([+-])|([+-]))$/);
+  const body = match ? match[1] : input.trim();
+  const digits = match?.[2] ?? '';
+  const sign = match?.[3] ?? match?.[4];
+
+  const formattedBody = body.replace(/[0-9]/g, d => SUBSCRIPT_DIGITS[Number(d)]);
+  if (!sign) return formattedBody;
+
+  const magnitude = digits.replace(/[0-9]/g, d => SUPERSCRIPT_DIGITS[Number(d)]);
+  return `${formattedBody}${magnitude}${sign === '+' ? '⁺' : '⁻'}`;
+};
+
+// 'SO42-' would read as 42 oxygens with a 1- charge; typed input like this is rejected
+export const hasUnseparatedCharge = (input: string) => /\d{2,}[+-]$/.test(input.trim());
+
+// Total valence electrons available to the Lewis structure. A ligand's bonds beyond the
+// center add the far atoms' share of those bonds.
+export const countValenceElectrons = (centralAtom: string, ligands: LigandDef[], charge = 0) => {
+  return ligands.reduce(
+    (total, ligand) => total + (getValenceElectrons(ligand.atom) + (ligand.externalBonds ?? 0)) * ligand.count,
+    getValenceElectrons(centralAtom)
+  ) - charge;
+};
+
+export const deriveLewisData = (centralAtom: string, ligands: LigandDef[], charge = 0): LewisData => {
+  const valenceElectrons = countValenceElectrons(centralAtom, ligands, charge);
+  const bondingPairs = ligands.reduce((total, ligand) => total + ligand.count, 0);
+  const bondOrderSum = ligands.reduce((total, ligand) => total + getBondOrder(ligand) * ligand.count, 0);
+
+  ligands.forEach(ligand => {
+    const bondOrder = getBondOrder(ligand);
+    if (!Number.isInteger(bondOrder) || bondOrder < 1 || bondOrder > 3) {
+      throw new Error(`Bond order ${bondOrder} to ${ligand.atom} must be 1, 2 or 3.`);
+    }
+    if (getShellSize(ligand.atom) - 2 * bondOrder < 0) {
+      throw new Error(`${ligand.atom} cannot form a bond of order ${bondOrder}.`);
+    }
+    const externalBonds = ligand.externalBonds ?? 0;
+    if (!Number.isInteger(externalBonds) || externalBonds < 0 || getShellSize(ligand.atom) - 2 * (bondOrder + externalBonds) < 0) {
+      throw new Error(`${ligand.atom} cannot form ${externalBonds} more bond orders beyond a bond of order ${bondOrder} to the center.`);
+    }
+  });
+
+  // Every ligand completes its shell first; what remains sits on the central atom.
+  // Multiple bonds move ligand lone pairs into shared pairs, so the remainder is the same.
+  const ligandElectrons = ligands.reduce(
+    (total, ligand) => total + getShellSize(ligand.atom) * ligand.count,
+    0
+  );
+  const remaining = valenceElectrons - ligandElectrons;
+
+  if (remaining < 0 || remaining % 2 !== 0) {
+    throw new Error(`${valenceElectrons} valence electrons cannot form a closed-shell structure.`);
+  }
+
+  const lonePairs = remaining / 2;
+  const stericNumber = bondingPairs + lonePairs;
+  const hybridization = HYBRIDIZATION_BY_STERIC_NUMBER[stericNumber];
+
+  if (!hybridization) {
+    throw new Error(`Steric number ${stericNumber} is outside the sp–sp³d² range.`);
+  }
+
+  // Each bond order adds a shared pair to the central atom's shell
+  const centralElectrons = 2 * lonePairs + 2 * bondOrderSum;
+  if (centralElectrons > 8 && OCTET_LIMITED_ATOMS.includes(centralAtom)) {
+    throw new Error(`${centralAtom} cannot hold ${centralElectrons} electrons; it is limited to an octet.`);
+  }
+
+  return {
+    valenceElectrons,
+    bondingPairs,
+    lonePairs,
+    stericNumber,
+    hybridization,
+    centralElectrons,
+    formalCharge: getCentralFormalCharge(centralAtom, lonePairs, bondOrderSum)
+  };
+};
+
+// Completes a molecule entry with the fields the electron count determines
+export const buildMoleculeDef = (
+  entry: Omit<MoleculeDef, 'bondingPairs' | 'lonePairs' | 'stericNumber' | 'hybridization'>
+): MoleculeDef => {
+  const { bondingPairs, lonePairs, stericNumber, hybridization } = deriveLewisData(entry.centralAtom, entry.ligands, entry.charge);
+  return { ...entry, bondingPairs, lonePairs, stericNumber, hybridization };
+};
+
+// Formal charges of a built structure, assuming every ligand completes its own shell.
+// The molecule's ligands supply the bonds an inner atom forms beyond the center.
+export const computeFormalCharges = (centralAtom: string, slots: OrbitalSlot[], ligandDefs: LigandDef[] = []): FormalCharges => {
+  const bonds = slots.filter(s => s.type === SlotType.BOND && s.ligand);
+  const lonePairs = slots.filter(s => s.type === SlotType.LONE_PAIR).length;
+  const bondOrderSum = bonds.reduce((total, slot) => total + getBondOrder(slot), 0);
+
+  const ligands: Record<number, number> = {};
+  bonds.forEach(slot => {
+    const externalBonds = ligandDefs.find(l => l.atom === slot.ligand && getBondOrder(l) === getBondOrder(slot))?.externalBonds;
+    ligands[slot.id] = getLigandFormalCharge(slot.ligand!, getBondOrder(slot), externalBonds);
+  });
+
+  return { central: getCentralFormalCharge(centralAtom, lonePairs, bondOrderSum), ligands };
+};
+
+// Electrons in the central atom's shell for a built structure
+export const countCentralElectrons = (slots: OrbitalSlot[]) => {
+  return slots.reduce((total, slot) => {
+    if (slot.type === SlotType.LONE_PAIR) return total + 2;
+    if (slot.type === SlotType.BOND) return total + 2 * getBondOrder(slot);
+    return total;
+  }, 0);
+};
+
+// Equivalent Lewis structures: ways to spread each atom's bond orders over its identical ligands
+export const countResonanceForms = (ligands: LigandDef[]) => {
+  const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+  const byAtom: Record<string, number[]> = {};
+
+  ligands.forEach(ligand => {
+    (byAtom[ligand.atom] = byAtom[ligand.atom] || []).push(ligand.count);
+  });
+
+  return Object.values(byAtom).reduce((forms, counts) => {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return forms * counts.reduce((ways, count) => ways / factorial(count), factorial(total));
+  }, 1);
+};
+
+// Returns a list of human-readable problems; empty when the entry is consistent
+export const validateMoleculeDef = (molecule: MoleculeDef): string[] => {
+  const issues: string[] = [];
+  const { ligands } = molecule;
+  const charge = molecule.charge ?? 0;
+
+  if (molecule.bondingPairs + molecule.lonePairs !== molecule.stericNumber) {
+    issues.push(`stericNumber ${molecule.stericNumber} does not equal bondingPairs + lonePairs (${molecule.bondingPairs + molecule.lonePairs}).`);
+  }
+
+  try {
+    const parsed = parseFormula(molecule.formula);
+    const expected: Record<string, number> = { [molecule.centralAtom]: 1 };
+    ligands.forEach(ligand => {
+      expected[ligand.atom] = (expected[ligand.atom] || 0) + ligand.count;
+    });
+
+    const symbols = new Set([...Object.keys(parsed.elements), ...Object.keys(expected)]);
+    symbols.forEach(symbol => {
+      if ((parsed.elements[symbol] || 0) !== (expected[symbol] || 0)) {
+        issues.push(`Formula has ${parsed.elements[symbol] || 0} ${symbol}, but the atoms describe ${expected[symbol] || 0}.`);
+      }
+    });
+
+    if (parsed.charge !== charge) {
+      issues.push(`Formula charge ${parsed.charge} does not match charge ${charge}.`);
+    }
+  } catch (error) {
+    issues.push((error as Error).message);
+  }
+
+  try {
+    const lewis = deriveLewisData(molecule.centralAtom, ligands, charge);
+
+    if (lewis.lonePairs !== molecule.lonePairs) {
+      issues.push(`lonePairs is ${molecule.lonePairs}, electron count gives ${lewis.lonePairs}.`);
+    }
+    if (lewis.stericNumber !== molecule.stericNumber) {
+      issues.push(`stericNumber is ${molecule.stericNumber}, electron count gives ${lewis.stericNumber}.`);
+    }
+    if (lewis.hybridization !== molecule.hybridization) {
+      issues.push(`hybridization is ${molecule.hybridization}, electron count gives ${lewis.hybridization}.`);
+    }
+    // The shape and bond-angle steps need at least two bonds, the same rule the generator and importer apply
+    if (lewis.bondingPairs < 2) {
+      issues.push(`${molecule.centralAtom} needs at least two ligand atoms; with ${lewis.bondingPairs} there is no molecular shape or bond angle to ask about.`);
+    } else if (MOLECULAR_SHAPE_NAMES[lewis.hybridization][lewis.lonePairs] === undefined) {
+      issues.push(`No molecular shape is named for a ${GEOMETRY_NAMES[lewis.hybridization]} layout with ${lewis.lonePairs} lone pairs.`);
+    }
+  } catch (error) {
+    issues.push((error as Error).message);
+  }
+
+  return issues;
+};
+
+// Checks every entry of a level set and flags the ones that disagree with their electron count
+export const auditMolecules = (molecules: MoleculeDef[]) => {
+  let isConsistent = true;
+
+  molecules.forEach(molecule => {
+    const issues = validateMoleculeDef(molecule);
+    if (issues.length > 0) {
+      isConsistent = false;
+      console.warn(`Molecule ${molecule.formula} is inconsistent:\n- ${issues.join('\n- ')}`);
+    }
+  });
+
+  return isConsistent;
+};
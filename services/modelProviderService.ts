@@ -0,0 +1,61 @@
+// What the language-model providers share: prompts, JSON parsing and the checks against the
+// molecule. Each provider only supplies how a prompt is sent. A reply that fails a check
+// throws, so hintService falls back to the offline tutor.
+
+import { HintCallOptions, HintProvider, HintProviderId, HintTier } from "../types";
+import { buildHintPrompt, buildSuccessPrompt } from "./promptService";
+import {
+  parseStructuredHint,
+  readPartialText,
+  findHintProblem,
+  findHintTextProblem,
+  findSuccessProblem
+} from "./responseCheckService";
+
+// Sends a prompt and resolves with the raw reply; onText receives the raw text so far
+export type GenerateText = (prompt: string, options: HintCallOptions) => Promise<string>;
+
+// Characters held back while streaming: the tail could be the start of a name such as
+// "Trigonal Bipyramidal" that the checks cannot see whole yet
+const PREVIEW_HOLDBACK = 24;
+
+const showPreview = (text: string, onText?: (text: string) => void) => {
+  if (text.length > PREVIEW_HOLDBACK) onText?.(text.slice(0, -PREVIEW_HOLDBACK));
+};
+
+export const createModelProvider = (id: HintProviderId, label: string, generate: GenerateText): HintProvider => ({
+  id,
+  label,
+
+  getHint: async (request, { signal, onText } = {}) => {
+    const raw = await generate(buildHintPrompt(request), {
+      signal,
+      // Stream only text that already passes the checks, so a giveaway never reaches the screen
+      onText: partial => {
+        if (request.tier !== HintTier.NEAR_ANSWER && /"revealsAnswer"\s*:\s*true/.test(partial)) return;
+        const text = readPartialText(partial);
+        if (text && !findHintTextProblem(request, text)) showPreview(text, onText);
+      }
+    });
+
+    const hint = parseStructuredHint(raw);
+    const problem = findHintProblem(request, hint);
+    if (problem) throw new Error(`Rejected hint: it ${problem}.`);
+    return hint;
+  },
+
+  getSuccessMessage: async (molecule, { signal, onText } = {}) => {
+    const raw = await generate(buildSuccessPrompt(molecule), {
+      signal,
+      onText: partial => {
+        const text = readPartialText(partial);
+        if (text && !findSuccessProblem(molecule, text)) showPreview(text, onText);
+      }
+    });
+
+    const { text } = parseStructuredHint(raw);
+    const problem = findSuccessProblem(molecule, text);
+    if (problem) throw new Error(`Rejected success note: it ${problem}.`);
+    return text;
+  }
+});
@@ -0,0 +1,311 @@
+// Reads molecules from SMILES strings and MDL molfiles and turns the environment of one
+// central atom into a sample. Hydrogens the input leaves implicit are added from the usual
+// valences, so every neighbour of a center is an explicit atom.
+
+import { LigandDef, MoleculeDef } from "../types";
+import { VALENCE_ELECTRONS } from "../constants";
+import { OCTET_LIMITED_ATOMS, buildMoleculeDef, formatFormula, validateMoleculeDef } from "./lewisService";
+import { suggestGeometryRules } from "./structureService";
+
+export interface ImportedAtom {
+  element: string;
+  charge: number;
+}
+
+export interface ImportedBond {
+  from: number; // Atom indexes
+  to: number;
+  order: number;
+}
+
+export interface ImportedStructure {
+  name: string; // Molfile title, empty for SMILES
+  source: string; // e.g. 'SMILES FS(F)(F)F', for the sample description
+  atoms: ImportedAtom[];
+  bonds: ImportedBond[];
+}
+
+export interface ImportCenter {
+  index: number;
+  label: string; // e.g. "C2 (bonded to C, O, H, H)"
+}
+
+// Atoms SMILES may write without brackets; they take implicit hydrogens
+const ORGANIC_SUBSET = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+
+const SMILES_BOND_ORDERS: Record<string, number> = { '-': 1, '/': 1, '\\': 1, '=': 2, '#': 3 };
+
+// Molfile atom-block charge codes
+const MOL_CHARGE_CODES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+const AROMATIC_ERROR = 'Aromatic atoms and bonds are not supported; write the structure in Kekulé form, e.g. C1=CC=CC=C1.';
+
+const getValence = (element: string) => {
+  const valence = VALENCE_ELECTRONS[element];
+  if (valence === undefined) throw new Error(`Unknown element "${element}".`);
+  return valence;
+};
+
+// Bond-order totals an atom usually reaches: an octet from 8 - V bonds, or more in steps of
+// two for atoms that can expand it. A charge shifts the atom onto its isoelectronic neighbour.
+const getUsualValences = (atom: ImportedAtom) => {
+  const electrons = getValence(atom.element) - atom.charge;
+  if (electrons <= 4) return [Math.max(0, electrons)];
+  const octet = 8 - electrons;
+  if (OCTET_LIMITED_ATOMS.includes(atom.element)) return [octet];
+  const valences: number[] = [];
+  for (let valence = octet; valence <= electrons; valence += 2) valences.push(valence);
+  return valences;
+};
+
+const getBondOrderSum = (structure: { bonds: ImportedBond[] }, index: number) => {
+  return structure.bonds.reduce((total, bond) => total + (bond.from === index || bond.to === index ? bond.order : 0), 0);
+};
+
+// Adds explicit hydrogen atoms: the given count, or enough to reach the next usual valence
+const addHydrogens = (atoms: ImportedAtom[], bonds: ImportedBond[], counts: (number | 'implicit')[]) => {
+  const structure = { atoms: [...atoms], bonds: [...bonds] };
+  counts.forEach((count, index) => {
+    const bondOrderSum = getBondOrderSum({ bonds }, index);
+    const hydrogens = count === 'implicit'
+      ? (getUsualValences(atoms[index]).find(valence => valence >= bondOrderSum) ?? bondOrderSum) - bondOrderSum
+      : count;
+    for (let i = 0; i < hydrogens; i++) {
+      structure.bonds.push({ from: index, to: structure.atoms.length, order: 1 });
+      structure.atoms.push({ element: 'H', charge: 0 });
+    }
+  });
+  return structure;
+};
+
+// Bracket atom, e.g. [NH4+], [O-], [Fe+2] or [13CH3@]
+const BRACKET_ATOM = /^(\d+)?([A-Z][a-z]?|[a-z]{1,2})(@{1,2}(?:TH|AL|SP|TB|OH)?\d*)?(?:H(\d*))?(\++\d*|-+\d*)?(?::\d+)?$/;
+
+const readBracketCharge = (text: string | undefined) => {
+  if (!text) return 0;
+  const sign = text[0] === '+' ? 1 : -1;
+  const digits = text.replace(/[+-]/g, '');
+  return sign * (digits ? parseInt(digits, 10) : text.length);
+};
+
+export const parseSmiles = (input: string): ImportedStructure => {
+  const smiles = input.trim();
+  if (!smiles) throw new Error('Enter a SMILES string.');
+
+  const atoms: ImportedAtom[] = [];
+  const bonds: ImportedBond[] = [];
+  const hydrogens: (number | 'implicit')[] = [];
+  const branches: number[] = [];
+  const rings = new Map<string, { atom: number; order: number | null }>();
+  let previous: number | null = null;
+  let pendingOrder: number | null = null;
+  let i = 0;
+
+  const addAtom = (atom: ImportedAtom, hydrogenCount: number | 'implicit') => {
+    atoms.push(atom);
+    hydrogens.push(hydrogenCount);
+    const index = atoms.length - 1;
+    if (previous !== null) bonds.push({ from: previous, to: index, order: pendingOrder ?? 1 });
+    previous = index;
+    pendingOrder = null;
+  };
+
+  while (i < smiles.length) {
+    const char = smiles[i];
+
+    if (char === '(') {
+      if (previous === null) throw new Error(`A branch at position ${i + 1} has no atom to attach to.`);
+      branches.push(previous);
+      i++;
+    } else if (char === ')') {
+      const start = branches.pop();
+      if (start === undefined) throw new Error(`Unmatched ")" at position ${i + 1}.`);
+      previous = start;
+      i++;
+    } else if (char === '.') {
+      previous = null;
+      i++;
+    } else if (SMILES_BOND_ORDERS[char]) {
+      pendingOrder = SMILES_BOND_ORDERS[char];
+      i++;
+    } else if (char === ':' || char === '$') {
+      throw new Error(char === ':' ? AROMATIC_ERROR : 'Quadruple bonds are not supported.');
+    } else if (/[0-9%]/.test(char)) {
+      const label = char === '%' ? smiles.slice(i + 1, i + 3) : char;
+      if (char === '%' && !/^\d\d$/.test(label)) throw new Error(`Ring label at position ${i + 1} needs two digits after "%".`);
+      if (previous === null) throw new Error(`Ring bond ${label} at position ${i + 1} has no atom.`);
+      const open = rings.get(label);
+      if (open) {
+        bonds.push({ from: open.atom, to: previous, order: pendingOrder ?? open.order ?? 1 });
+        rings.delete(label);
+      } else {
+        rings.set(label, { atom: previous, order: pendingOrder });
+      }
+      pendingOrder = null;
+      i += char === '%' ? 3 : 1;
+    } else if (char === '[') {
+      const end = smiles.indexOf(']', i);
+      if (end < 0) throw new Error(`Unclosed "[" at position ${i + 1}.`);
+      const match = smiles.slice(i + 1, end).match(BRACKET_ATOM);
+      if (!match) throw new Error(`Cannot read the atom "${smiles.slice(i, end + 1)}".`);
+      if (match[2] === match[2].toLowerCase()) throw new Error(AROMATIC_ERROR);
+      getValence(match[2]);
+      addAtom({ element: match[2], charge: readBracketCharge(match[5]) }, match[4] === undefined ? 0 : parseInt(match[4] || '1', 10));
+      i = end + 1;
+    } else if (/[a-z]/.test(char) && 'bcnops'.includes(char)) {
+      throw new Error(AROMATIC_ERROR);
+    } else {
+      const element = ORGANIC_SUBSET.find(symbol => smiles.startsWith(symbol, i));
+      if (!element) throw new Error(`Unexpected "${char}" at position ${i + 1}; atoms outside B, C, N, O, P, S and the halogens need brackets.`);
+      addAtom({ element, charge: 0 }, 'implicit');
+      i += element.length;
+    }
+  }
+
+  if (branches.length > 0) throw new Error('A branch is missing its ")".');
+  if (rings.size > 0) throw new Error(`Ring bond ${[...rings.keys()][0]} is never closed.`);
+  if (atoms.length === 0) throw new Error('The SMILES string has no atoms.');
+
+  return { name: '', source: `SMILES ${smiles}`, ...addHydrogens(atoms, bonds, hydrogens) };
+};
+
+// MDL V2000 molfile, or the first record of an SD file. "LP" lone-pair atoms are dropped;
+// the importer works lone pairs out from the electron count.
+export const parseMolFile = (text: string): ImportedStructure => {
+  const lines = text.replace(/\r/g, '').split('\n');
+  const counts = lines[3] ?? '';
+  if (counts.includes('V3000')) throw new Error('V3000 molfiles are not supported; save the file in V2000 format.');
+  if (!counts.includes('V2000')) throw new Error('This is not a V2000 molfile: the counts line is missing.');
+
+  const atomCount = parseInt(counts.slice(0, 3), 10);
+  const bondCount = parseInt(counts.slice(3, 6), 10);
+  if (!(atomCount > 0) || !(bondCount >= 0)) throw new Error('The molfile counts line is malformed.');
+  if (lines.length < 4 + atomCount + bondCount) throw new Error('The molfile ends before its atom and bond blocks do.');
+
+  const fileAtoms = lines.slice(4, 4 + atomCount).map(line => ({
+    element: line.slice(31, 34).trim(),
+    charge: MOL_CHARGE_CODES[parseInt(line.slice(36, 39), 10)] ?? 0
+  }));
+  const fileBonds = lines.slice(4 + atomCount, 4 + atomCount + bondCount).map((line, i) => {
+    const order = parseInt(line.slice(6, 9), 10);
+    if (order === 4) throw new Error(AROMATIC_ERROR);
+    if (!(order >= 1 && order <= 3)) throw new Error(`Bond ${i + 1} has unsupported type ${line.slice(6, 9).trim()}.`);
+    return { from: parseInt(line.slice(0, 3), 10) - 1, to: parseInt(line.slice(3, 6), 10) - 1, order };
+  });
+
+  // Charge lines replace every atom-block charge
+  const chargeLines = lines.slice(4 + atomCount + bondCount).filter(line => line.startsWith('M  CHG'));
+  if (chargeLines.length > 0) fileAtoms.forEach(atom => { atom.charge = 0; });
+  chargeLines.forEach(line => {
+    const fields = line.slice(6).trim().split(/\s+/).slice(1).map(Number);
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      if (fileAtoms[fields[i] - 1]) fileAtoms[fields[i] - 1].charge = fields[i + 1];
+    }
+  });
+
+  const kept = fileAtoms.map((atom, i) => ({ atom, i })).filter(({ atom }) => atom.element !== 'LP');
+  const newIndex = new Map(kept.map(({ i }, index) => [i, index]));
+  const atoms = kept.map(({ atom }) => atom);
+  atoms.forEach(atom => getValence(atom.element));
+  const bonds = fileBonds.flatMap(bond => {
+    const from = newIndex.get(bond.from);
+    const to = newIndex.get(bond.to);
+    return from === undefined || to === undefined ? [] : [{ from, to, order: bond.order }];
+  });
+
+  const name = lines[0].trim();
+  return {
+    name,
+    source: name ? `the molfile "${name}"` : 'a molfile',
+    ...addHydrogens(atoms, bonds, atoms.map(atom => (atom.element === 'H' ? 0 : 'implicit')))
+  };
+};
+
+// Molfiles have a counts line ending in V2000 or V3000; anything else is taken as SMILES
+export const parseMoleculeInput = (text: string): ImportedStructure => {
+  return /V[23]000/.test(text) ? parseMolFile(text) : parseSmiles(text);
+};
+
+const getNeighbours = (structure: ImportedStructure, index: number) => {
+  return structure.bonds.flatMap(bond => {
+    if (bond.from === index) return [{ atom: bond.to, order: bond.order }];
+    if (bond.to === index) return [{ atom: bond.from, order: bond.order }];
+    return [];
+  });
+};
+
+// Non-hydrogen atoms with at least two neighbours whose environment makes a valid sample.
+// An atom next to an expanded-octet atom (the O atoms of H₂SO₄) is left out: the electron
+// count only lets neighbours complete an octet.
+export const findCenters = (structure: ImportedStructure): ImportCenter[] => {
+  const seen: Record<string, number> = {};
+  return structure.atoms.flatMap((atom, index) => {
+    if (atom.element === 'H') return [];
+    seen[atom.element] = (seen[atom.element] ?? 0) + 1;
+    const neighbours = getNeighbours(structure, index);
+    if (neighbours.length < 2 || !canBuildCenter(structure, index)) return [];
+    const elements = neighbours.map(n => structure.atoms[n.atom].element);
+    return [{ index, label: `${atom.element}${seen[atom.element]} (bonded to ${elements.join(', ')})` }];
+  });
+};
+
+// The formula of the center and its ligands. Fragments with carbon follow Hill order (C, H,
+// then alphabetical: C₂H₃, CHO); others keep the usual inorganic order, where hydrogen goes
+// first for group 16 and 17 centers (H₂O, H₂S) and last otherwise (NH₃, SiH₄).
+const buildFormula = (centralAtom: string, ligands: LigandDef[], charge: number) => {
+  const counts: Record<string, number> = { [centralAtom]: 1 };
+  ligands.forEach(ligand => { counts[ligand.atom] = (counts[ligand.atom] ?? 0) + ligand.count; });
+  const part = (atom: string) => (counts[atom] ? `${atom}${counts[atom] > 1 ? counts[atom] : ''}` : '');
+  const others = Object.keys(counts).filter(atom => atom !== 'H' && atom !== centralAtom).map(part).join('');
+  const hill = () => ['C', 'H', ...Object.keys(counts).filter(atom => atom !== 'C' && atom !== 'H').sort()].map(part).join('');
+  const body = counts.C
+    ? hill()
+    : getValence(centralAtom) >= 6 ? `${part('H')}${part(centralAtom)}${others}` : `${part(centralAtom)}${others}${part('H')}`;
+  const sign = charge === 0 ? '' : `${Math.abs(charge) > 1 ? ` ${Math.abs(charge)}` : ''}${charge > 0 ? '+' : '-'}`;
+  return formatFormula(body + sign);
+};
+
+// The sample for one center: its neighbours become ligands, and a neighbour that bonds on to
+// further atoms keeps those bonds as externalBonds. The charge is the center's formal charge
+// plus its neighbours', which is what the electron count around the center needs.
+export const buildCenterMolecule = (structure: ImportedStructure, index: number, isOnlyCenter: boolean): MoleculeDef => {
+  const center = structure.atoms[index];
+  const neighbours = getNeighbours(structure, index);
+  const ligands: LigandDef[] = [];
+
+  neighbours.forEach(({ atom, order }) => {
+    const externalBonds = getBondOrderSum(structure, atom) - order;
+    const element = structure.atoms[atom].element;
+    const existing = ligands.find(l => l.atom === element && (l.bondOrder ?? 1) === order && (l.externalBonds ?? 0) === externalBonds);
+    if (existing) existing.count++;
+    else ligands.push({ atom: element, count: 1, ...(order > 1 ? { bondOrder: order } : {}), ...(externalBonds > 0 ? { externalBonds } : {}) });
+  });
+
+  const charge = neighbours.reduce((total, { atom }) => total + structure.atoms[atom].charge, center.charge);
+  const formula = buildFormula(center.element, ligands, charge);
+  const inner = [...new Set(ligands.filter(l => l.externalBonds).map(l => l.atom))];
+  const description = [
+    `Imported from ${structure.source}${isOnlyCenter ? '' : `, centred on ${center.element}`}.`,
+    ...(inner.length > 0 ? [`${inner.join(' and ')} bond${inner.length === 1 ? 's' : ''} on to further atoms; each bond to ${center.element} still counts as one domain.`] : [])
+  ].join(' ');
+  const name = structure.name || formula;
+
+  const base = buildMoleculeDef({
+    formula,
+    name: isOnlyCenter ? name : `${name} (${center.element} center)`,
+    centralAtom: center.element,
+    ligands,
+    ...(charge !== 0 ? { charge } : {}),
+    description
+  });
+  const geometryRules = suggestGeometryRules(base);
+  return geometryRules ? { ...base, geometryRules } : base;
+};
+
+const canBuildCenter = (structure: ImportedStructure, index: number) => {
+  try {
+    return validateMoleculeDef(buildCenterMolecule(structure, index, true)).length === 0;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,71 @@
+import { HintProvider, HintProviderId } from "../types";
+import { createModelProvider, GenerateText } from "./modelProviderService";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for a local model server
+  model: string;
+  apiKey?: string;
+}
+
+// Reads the text deltas out of a chat-completions server-sent event stream
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText?: (text: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Keep a trailing partial line for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') continue;
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onText?.(text);
+      }
+    }
+  }
+  return text;
+};
+
+// Hints from any server that speaks the OpenAI chat-completions protocol, streamed as JSON.
+// Errors propagate so the caller can fall back.
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): HintProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const generate: GenerateText = async (prompt, { signal, onText }) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        stream: true,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: prompt }]
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`${endpoint} responded with ${response.status} ${response.statusText}.`);
+    }
+
+    const text = (await readEventStream(response.body, onText)).trim();
+    if (!text) throw new Error(`${endpoint} returned no message content.`);
+    return text;
+  };
+
+  return createModelProvider(HintProviderId.OPENAI, `OpenAI-compatible (${model})`, generate);
+};
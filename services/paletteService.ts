@@ -0,0 +1,58 @@
+// The electron-domain palette: what the molecule's electron count provides, what is left to
+// place, and the slot edits that placing, moving and removing domains make
+
+import { DomainToken, MoleculeDef, OrbitalSlot, PaletteEntry, SlotType } from "../types";
+
+export const isSameDomain = (slot: Pick<OrbitalSlot, 'type' | 'ligand'>, domain: DomainToken) => {
+  return slot.type === domain.type && (domain.type !== SlotType.BOND || slot.ligand === domain.ligand);
+};
+
+// One entry per ligand element, then the lone pairs, each with what is still unplaced
+export const getPalette = (molecule: MoleculeDef, slots: OrbitalSlot[]): PaletteEntry[] => {
+  const totals: Record<string, number> = {};
+  molecule.ligands.forEach(ligand => {
+    totals[ligand.atom] = (totals[ligand.atom] || 0) + ligand.count;
+  });
+
+  const domains: { domain: DomainToken; total: number }[] = Object.entries(totals).map(([atom, total]) => ({
+    domain: { type: SlotType.BOND, ligand: atom },
+    total
+  }));
+  if (molecule.lonePairs > 0) domains.push({ domain: { type: SlotType.LONE_PAIR }, total: molecule.lonePairs });
+
+  return domains.map(({ domain, total }) => ({
+    domain,
+    total,
+    remaining: Math.max(0, total - slots.filter(slot => isSameDomain(slot, domain)).length)
+  }));
+};
+
+export const isDomainAvailable = (palette: PaletteEntry[], domain: DomainToken) => {
+  return palette.some(entry => isSameDomain(entry.domain, domain) && entry.remaining > 0);
+};
+
+// Puts a domain on a slot; whatever the slot held goes back to the palette
+export const placeDomain = (slots: OrbitalSlot[], id: number, domain: DomainToken, bondOrder: number): OrbitalSlot[] => {
+  return slots.map(slot => {
+    if (slot.id !== id) return slot;
+    return domain.type === SlotType.BOND
+      ? { ...slot, type: SlotType.BOND, ligand: domain.ligand, bondOrder }
+      : { ...slot, type: SlotType.LONE_PAIR, ligand: undefined, bondOrder: undefined };
+  });
+};
+
+export const clearSlot = (slots: OrbitalSlot[], id: number): OrbitalSlot[] => {
+  return slots.map(slot => slot.id === id ? { ...slot, type: SlotType.EMPTY, ligand: undefined, bondOrder: undefined } : slot);
+};
+
+// Moves a slot's contents onto another slot, swapping when that one is occupied
+export const swapSlots = (slots: OrbitalSlot[], fromId: number, toId: number): OrbitalSlot[] => {
+  const from = slots.find(slot => slot.id === fromId);
+  const to = slots.find(slot => slot.id === toId);
+  if (!from || !to || fromId === toId) return slots;
+
+  return slots.map(slot => {
+    const source = slot.id === fromId ? to : slot.id === toId ? from : null;
+    return source ? { ...slot, type: source.type, ligand: source.ligand, bondOrder: source.bondOrder } : slot;
+  });
+};
@@ -0,0 +1,41 @@
+// Molecular polarity: net dipole from bond dipoles along the real 3D domain directions
+
+import { MoleculeDef, OrbitalSlot, SlotType, Vec3, AnswerResult } from "../types";
+import { ELECTRONEGATIVITY, POLARITY_THRESHOLD } from "../constants";
+import { add, scale, magnitude } from "./vectorMath";
+import { buildReferenceSlots } from "./structureService";
+
+// Sum of bond dipoles, each pointing toward the more electronegative atom.
+// Lone pairs are left out: bond dipoles alone decide the polar/nonpolar question here.
+export const computeDipole = (centralAtom: string, slots: OrbitalSlot[]): Vec3 => {
+  const centralEN = ELECTRONEGATIVITY[centralAtom] ?? 0;
+
+  return slots.reduce<Vec3>((total, slot) => {
+    if (slot.type !== SlotType.BOND || !slot.ligand) return total;
+    const ligandEN = ELECTRONEGATIVITY[slot.ligand] ?? centralEN;
+    return add(total, scale(slot.direction, ligandEN - centralEN));
+  }, [0, 0, 0]);
+};
+
+export const isPolar = (dipole: Vec3) => magnitude(dipole) > POLARITY_THRESHOLD;
+
+// Polarity of the molecule's answer structure
+export const isMoleculePolar = (molecule: MoleculeDef) => {
+  const slots = buildReferenceSlots(molecule);
+  return slots ? isPolar(computeDipole(molecule.centralAtom, slots)) : false;
+};
+
+export const validatePolarity = (molecule: MoleculeDef, answer: boolean): AnswerResult => {
+  const polar = isMoleculePolar(molecule);
+
+  if (answer !== polar) {
+    return {
+      isCorrect: false,
+      failReason: polar
+        ? `Incorrect. The bond dipoles of ${molecule.formula} do not cancel, so it is polar.`
+        : `Incorrect. The bond dipoles of ${molecule.formula} cancel by symmetry, so it is nonpolar.`
+    };
+  }
+
+  return { isCorrect: true, failReason: "" };
+};
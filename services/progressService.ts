@@ -0,0 +1,102 @@
+// Game progress: one GameState per run, saved to localStorage together with its level pack
+// so a refresh or a closed tab can pick up where the student stopped.
+
+import { GameMode, GameState, LevelPack, SampleRecord } from "../types";
+import { PROGRESS_STORAGE_KEY, PROGRESS_FORMAT_VERSION } from "../constants";
+import { validateLevelPack } from "./levelPackService";
+import { isObject } from "./jsonUtils";
+import { createMastery } from "./sequencerService";
+
+export interface SavedSession {
+  pack: LevelPack;
+  game: GameState;
+  savedAt: string;
+}
+
+export const createGameState = (mode = GameMode.EXAM, adaptive = false): GameState => ({
+  mode,
+  adaptive,
+  currentTurn: 0,
+  sequence: [0],
+  score: 0,
+  history: [],
+  mastery: createMastery(),
+  reviews: [],
+  isComplete: false
+});
+
+// Merges an answer (or hint use) into the record of the given turn, adding its points
+// and the time spent since the previous submission
+export const recordAnswer = (
+  game: GameState,
+  turn: number,
+  formula: string,
+  changes: Partial<Omit<SampleRecord, 'formula' | 'timeSpentMs'>>,
+  points = 0,
+  elapsedMs = 0
+): GameState => {
+  const history = [...game.history];
+  const record = history[turn] ?? { formula, hintsUsed: 0, timeSpentMs: 0 };
+  history[turn] = { ...record, ...changes, timeSpentMs: record.timeSpentMs + elapsedMs };
+  return { ...game, score: game.score + points, history };
+};
+
+// Storage can be unavailable (private mode, quota); progress then simply isn't kept
+export const saveSession = (pack: LevelPack, game: GameState) => {
+  try {
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify({
+      formatVersion: PROGRESS_FORMAT_VERSION,
+      pack,
+      game,
+      savedAt: new Date().toISOString()
+    }));
+  } catch (error) {
+    console.warn("Could not save progress", error);
+  }
+};
+
+export const clearSession = () => {
+  try {
+    localStorage.removeItem(PROGRESS_STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not clear saved progress", error);
+  }
+};
+
+const isGameState = (value: unknown, moleculeCount: number): value is GameState => {
+  return (
+    isObject(value) &&
+    Object.values(GameMode).includes(value.mode as GameMode) &&
+    typeof value.adaptive === 'boolean' &&
+    typeof value.currentTurn === 'number' && Number.isInteger(value.currentTurn) &&
+    Array.isArray(value.sequence) && value.sequence.length === value.currentTurn + 1 &&
+    value.sequence.every((i: unknown) => typeof i === 'number' && Number.isInteger(i) && i >= 0 && i < moleculeCount) &&
+    typeof value.score === 'number' &&
+    Array.isArray(value.history) &&
+    isObject(value.mastery) &&
+    Array.isArray(value.reviews) &&
+    typeof value.isComplete === 'boolean'
+  );
+};
+
+// Returns the saved run if there is an unfinished one that still validates
+export const loadSession = (): SavedSession | null => {
+  let data: unknown;
+  try {
+    const text = localStorage.getItem(PROGRESS_STORAGE_KEY);
+    if (!text) return null;
+    data = JSON.parse(text);
+  } catch (error) {
+    console.warn("Could not read saved progress", error);
+    return null;
+  }
+
+  if (!isObject(data) || data.formatVersion !== PROGRESS_FORMAT_VERSION) return null;
+
+  // The pack is re-checked in case the validation rules changed since it was saved
+  const { pack } = validateLevelPack(data.pack);
+  if (!pack || !isGameState(data.game, pack.molecules.length) || data.game.isComplete || typeof data.savedAt !== 'string') {
+    return null;
+  }
+  return { pack, game: data.game, savedAt: data.savedAt };
+};
@@ -0,0 +1,69 @@
+// Prompts shared by the language-model hint providers
+
+import { HintConcept, HintRequest, HintTier, MoleculeDef, OrbitalPositionType, StructureDiagnosis } from "../types";
+import { BOND_ANGLES, GEOMETRY_NAMES, HINT_TIERS, MOLECULAR_SHAPE_NAMES } from "../constants";
+
+// Both prompts ask for the reply that responseCheckService parses and checks
+const RESPONSE_FORMAT = `
+  Respond with JSON only, no other text, in exactly this form:
+  {"concept": one of ${Object.values(HintConcept).map(c => `"${c}"`).join(', ')}, "revealsAnswer": true or false, "text": "your message"}
+  Set "revealsAnswer" to true if the text tells the student the geometry, the lone-pair count or where to place anything.
+`;
+
+const POSITION_NAMES: Record<OrbitalPositionType, string> = {
+  [OrbitalPositionType.AXIAL]: 'Axial',
+  [OrbitalPositionType.EQUATORIAL]: 'Equatorial',
+  [OrbitalPositionType.GENERAL]: 'Positions'
+};
+
+// e.g. "Axial: 1 bond (F), 1 lone pair. Equatorial: 3 bonds (F, F, O=)."
+const describePositions = (diagnosis: StructureDiagnosis) => {
+  return Object.entries(diagnosis.positions).map(([position, contents]) => {
+    const parts = [
+      contents.bonds > 0 ? `${contents.bonds} bond${contents.bonds === 1 ? '' : 's'} (${contents.ligands.join(', ')})` : '',
+      contents.lonePairs > 0 ? `${contents.lonePairs} lone pair${contents.lonePairs === 1 ? '' : 's'}` : '',
+      contents.empty > 0 ? `${contents.empty} empty` : ''
+    ].filter(Boolean);
+    return `${POSITION_NAMES[position as OrbitalPositionType]}: ${parts.join(', ')}.`;
+  }).join(' ');
+};
+
+const describeDiagnosis = (diagnosis: StructureDiagnosis) => `
+  The student's current arrangement (not yet verified):
+  Selected Geometry: ${GEOMETRY_NAMES[diagnosis.hybridization]} (${diagnosis.stericNumber} domains).
+  Placed: bonds ${diagnosis.bonds}, lone pairs ${diagnosis.lonePairs}, empty slots ${diagnosis.empty}.
+  ${describePositions(diagnosis)}
+  ${diagnosis.lonePairs > 1 ? `Lone pairs trans to each other: ${diagnosis.lonePairsTrans ? 'yes' : 'no'}.` : ''}
+  ${diagnosis.failure ? `Verifying it now would fail at the ${diagnosis.failure.replace('_', ' ')} check.` : 'It would pass verification as it stands; do not say so, just nudge them to double-check their reasoning.'}
+`;
+
+export const buildHintPrompt = ({ molecule, tier, currentError, diagnosis }: HintRequest) => `
+  You are a chemistry tutor for a student learning VSEPR theory and molecular geometry.
+  The student is stuck on the molecule: ${molecule.name} (${molecule.formula}).
+  Target Geometry: ${GEOMETRY_NAMES[molecule.hybridization]}.
+  Steric Number: ${molecule.stericNumber}.
+  Bonding Pairs: ${molecule.bondingPairs}.
+  Lone Pairs: ${molecule.lonePairs}.
+
+  Note: The UI allows the user to select the Geometry Shape (e.g., Linear, Tetrahedral, Octahedral).
+
+  ${currentError ? `The student made this error: ${currentError}` : ''}
+  ${diagnosis ? describeDiagnosis(diagnosis) : 'The student has not picked a geometry yet.'}
+
+  ${HINT_TIERS.find(t => t.tier === tier)?.instruction}
+  Guide them towards the steric number calculation or orbital placement logic.
+  Address the specific misconception their current arrangement shows rather than giving generic advice.
+  If the error mentions lone pair placement in Trigonal Bipyramidal, explain why equatorial positions are preferred.
+  If it mentions lone pair placement in Octahedral, explain why lone pairs prefer to sit trans to each other.
+  ${tier === HintTier.NEAR_ANSWER
+    ? 'Never name the molecular shape; the student is asked for it next.'
+    : 'Never name the target geometry, the hybridization, the steric number or the molecular shape.'}
+  ${RESPONSE_FORMAT}
+`;
+
+export const buildSuccessPrompt = (molecule: MoleculeDef) => `
+  The student successfully built ${molecule.name} (${molecule.formula}) with ${GEOMETRY_NAMES[molecule.hybridization]} geometry.
+  Its molecular shape is ${MOLECULAR_SHAPE_NAMES[molecule.hybridization][molecule.lonePairs]}, with predicted bond angles of ${Object.values(BOND_ANGLES[molecule.hybridization][molecule.lonePairs] ?? {}).map(angle => `${angle}°`).join(', ')}.
+  Give a very brief (1 sentence) fun fact or stability note about this molecule's geometry. Only quote the shape and angles given here.
+  ${RESPONSE_FORMAT}
+`;
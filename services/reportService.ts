@@ -0,0 +1,121 @@
+// End-of-run results: one row per sample, shared by the on-screen report and the CSV export
+
+import { GameState, LevelPack, OrbitalPositionType, OrbitalSlot, SlotType, StepRecord } from "../types";
+import { BOND_ORDER_SYMBOLS, MODE_CONFIGS } from "../constants";
+
+export interface ReportRow {
+  index: number;
+  formula: string;
+  name: string;
+  review: string;
+  hybridization: string;
+  arrangement: string;
+  structure: string;
+  failReason: string;
+  shape: string;
+  bondAngle: string;
+  polarity: string;
+  hintsUsed: number;
+  time: string;
+}
+
+const POSITION_LABELS: Record<OrbitalPositionType, string> = {
+  [OrbitalPositionType.AXIAL]: 'ax',
+  [OrbitalPositionType.EQUATORIAL]: 'eq',
+  [OrbitalPositionType.GENERAL]: ''
+};
+
+// e.g. "ax F, ax F, eq O=, eq LP, eq F"; empty slots are left out
+export const describeArrangement = (slots: OrbitalSlot[]) => {
+  return slots
+    .filter(slot => slot.type !== SlotType.EMPTY)
+    .map(slot => {
+      const content = slot.type === SlotType.LONE_PAIR
+        ? 'LP'
+        : `${slot.ligand ?? '?'}${(slot.bondOrder ?? 1) > 1 ? BOND_ORDER_SYMBOLS[(slot.bondOrder ?? 1) - 1] : ''}`;
+      const position = POSITION_LABELS[slot.positionType];
+      return position ? `${position} ${content}` : content;
+    })
+    .join(', ');
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// e.g. "correct, 2 attempts"
+const formatOutcome = (step: StepRecord) => {
+  const result = step.isCorrect ? 'correct' : 'incorrect';
+  return step.attempts > 1 ? `${result}, ${step.attempts} attempts` : result;
+};
+
+const formatAnswer = (answer: (StepRecord & { answer: string }) | undefined) => {
+  if (!answer) return '—';
+  return `${answer.answer} (${formatOutcome(answer)})`;
+};
+
+// One row per turn, so samples that came back for review appear again
+export const buildReportRows = (pack: LevelPack, game: GameState): ReportRow[] => {
+  return game.sequence.map((moleculeIndex, turn) => {
+    const molecule = pack.molecules[moleculeIndex];
+    const record = game.history[turn];
+    const structure = record?.structure;
+    const bondAngle = record?.bondAngle;
+
+    return {
+      index: turn + 1,
+      formula: molecule.formula,
+      name: molecule.name,
+      review: game.sequence.indexOf(moleculeIndex) < turn ? 'Review' : '',
+      hybridization: structure?.hybridization ?? '—',
+      arrangement: structure ? describeArrangement(structure.slots) : '—',
+      structure: !structure
+        ? 'Not attempted'
+        : `${structure.isCorrect ? 'Correct' : 'Incorrect'}${structure.attempts > 1 ? ` (${structure.attempts} attempts)` : ''}`,
+      failReason: structure?.isCorrect === false ? structure.failReason : '',
+      shape: formatAnswer(record?.shape),
+      bondAngle: !bondAngle
+        ? '—'
+        : bondAngle.estimate === null
+          ? 'Skipped'
+          : `${bondAngle.estimate}° (${formatOutcome(bondAngle)})`,
+      polarity: formatAnswer(record?.polarity),
+      hintsUsed: record?.hintsUsed ?? 0,
+      time: formatDuration(record?.timeSpentMs ?? 0)
+    };
+  });
+};
+
+const CSV_COLUMNS: [keyof ReportRow, string][] = [
+  ['index', 'Sample'],
+  ['formula', 'Formula'],
+  ['name', 'Name'],
+  ['review', 'Review'],
+  ['hybridization', 'Hybridization'],
+  ['arrangement', 'Slot Arrangement'],
+  ['structure', 'Structure'],
+  ['failReason', 'Failure Reason'],
+  ['shape', 'Molecular Shape'],
+  ['bondAngle', 'Bond Angle'],
+  ['polarity', 'Polarity'],
+  ['hintsUsed', 'Hints Used'],
+  ['time', 'Time (m:ss)']
+];
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes spreadsheet apps read the subscripts and degree signs as UTF-8
+export const buildReportCsv = (rows: ReportRow[], game: GameState) => {
+  const lines = [
+    CSV_COLUMNS.map(([, header]) => header).join(','),
+    ...rows.map(row => CSV_COLUMNS.map(([key]) => escapeCsv(row[key])).join(',')),
+    '',
+    `Mode,${MODE_CONFIGS[game.mode].label}`,
+    `Total Score,${game.score}`
+  ];
+  return '\uFEFF' + lines.join('\n');
+};
@@ -0,0 +1,85 @@
+// Checks a language model's structured reply against the molecule data before it is shown
+
+import { HintConcept, HintRequest, HintTier, MoleculeDef, StructuredHint } from "../types";
+import { GEOMETRY_NAMES, MOLECULAR_SHAPE_NAMES, BOND_ANGLES, BOND_ANGLE_TOLERANCE } from "../constants";
+import { isMoleculePolar } from "./polarityService";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive; "sp³" does not match inside "sp³d"
+const mentions = (text: string, phrase: string) => {
+  return new RegExp(`(^|[^\\w])${escapeRegExp(phrase)}(?![\\w²³])`, 'i').test(text);
+};
+
+// "sp³d²" is often typed as "sp3d2"
+const spellHybridization = (hybridization: string) => [hybridization, hybridization.replace('³', '3').replace('²', '2')];
+
+const ALL_SHAPE_NAMES = Array.from(new Set([
+  ...Object.values(GEOMETRY_NAMES),
+  ...Object.values(MOLECULAR_SHAPE_NAMES).flatMap(shapes => Object.values(shapes))
+]));
+
+export const parseStructuredHint = (raw: string): StructuredHint => {
+  // Models sometimes wrap the JSON in a code fence
+  const data = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+
+  if (typeof data?.text !== 'string' || !data.text.trim()) throw new Error("Response has no text.");
+  if (!Object.values(HintConcept).includes(data.concept)) throw new Error(`Unknown concept tag "${data.concept}".`);
+  if (typeof data.revealsAnswer !== 'boolean') throw new Error("Response does not say whether it reveals the answer.");
+
+  return { text: data.text.trim(), concept: data.concept, revealsAnswer: data.revealsAnswer };
+};
+
+// The "text" value of a JSON reply that is still streaming in, or null before it starts
+export const readPartialText = (raw: string): string | null => {
+  const match = raw.match(/"text"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return null; // Cut off inside a \u escape
+  }
+};
+
+// Returns what a hint gives away that its tier does not allow, or null when it is safe to show
+export const findHintTextProblem = ({ molecule, tier }: HintRequest, text: string): string | null => {
+  const geometry = GEOMETRY_NAMES[molecule.hybridization];
+  const shape = MOLECULAR_SHAPE_NAMES[molecule.hybridization][molecule.lonePairs];
+
+  // The near-answer tier may name the layout, never the shape the next question asks for
+  if (tier !== HintTier.NEAR_ANSWER) {
+    if (mentions(text, geometry)) return `names the target geometry (${geometry})`;
+    if (spellHybridization(molecule.hybridization).some(spelling => mentions(text, spelling))) {
+      return `names the hybridization (${molecule.hybridization})`;
+    }
+    if (/steric number\s*(?:of|is|=|:)?\s*\d/i.test(text)) return "states the steric number";
+  }
+  if (shape !== geometry && mentions(text, shape)) return `names the molecular shape (${shape})`;
+
+  return null;
+};
+
+export const findHintProblem = (request: HintRequest, hint: StructuredHint): string | null => {
+  if (hint.revealsAnswer && request.tier !== HintTier.NEAR_ANSWER) return "says it reveals the answer";
+  return findHintTextProblem(request, hint.text);
+};
+
+// Returns the first claim in a success note that contradicts the molecule data, or null
+export const findSuccessProblem = (molecule: MoleculeDef, text: string): string | null => {
+  const ownNames = [GEOMETRY_NAMES[molecule.hybridization], MOLECULAR_SHAPE_NAMES[molecule.hybridization][molecule.lonePairs]];
+  const wrongName = ALL_SHAPE_NAMES.find(name => !ownNames.includes(name) && mentions(text, name));
+  if (wrongName) return `calls the molecule ${wrongName}`;
+
+  // Any angle quoted must be one of the ideal or predicted angles of this shape
+  const angles = Object.entries(BOND_ANGLES[molecule.hybridization][molecule.lonePairs] ?? {}).flat().map(Number);
+  const wrongAngle = Array.from(text.matchAll(/(\d+(?:\.\d+)?)\s*°/g))
+    .map(match => Number(match[1]))
+    .find(angle => !angles.some(known => Math.abs(known - angle) <= BOND_ANGLE_TOLERANCE));
+  if (wrongAngle !== undefined) return `quotes a ${wrongAngle}° bond angle`;
+
+  const isPolar = isMoleculePolar(molecule);
+  if (isPolar && /\bnon-?polar\b/i.test(text)) return "calls a polar molecule nonpolar";
+  if (!isPolar && /(?<!non-?)\bpolar molecule/i.test(text)) return "calls a nonpolar molecule polar";
+
+  return null;
+};
@@ -0,0 +1,35 @@
+// Mode-dependent scoring: how much an attempt at a step is worth and whether the step is finished
+
+import { GameMode, ScoredStep, StepRecord } from "../types";
+import { MODE_CONFIGS, HINT_TIERS } from "../constants";
+
+// Scores one more attempt at a step. Credit never goes down between attempts, so delta is
+// what this attempt adds to the score.
+export const scoreAttempt = (
+  mode: GameMode,
+  step: ScoredStep,
+  previous: StepRecord | undefined,
+  isCorrect: boolean,
+  isPartiallyCorrect = false
+): { record: StepRecord; delta: number } => {
+  const config = MODE_CONFIGS[mode];
+  const fullPoints = config.scoring[step];
+  const attempts = (previous?.attempts ?? 0) + 1;
+
+  const partialPoints = isPartiallyCorrect ? Math.round(fullPoints * config.partialStructureCredit) : 0;
+  const correctPoints = Math.round(fullPoints * Math.max(0, 1 - config.retryPenalty * (attempts - 1)));
+  const earned = isCorrect ? Math.max(correctPoints, partialPoints) : partialPoints;
+
+  const previousPoints = previous?.points ?? 0;
+  const points = Math.max(earned, previousPoints);
+  return { record: { isCorrect, attempts, points }, delta: points - previousPoints };
+};
+
+// A step is finished once it is answered correctly, or after one attempt when retries are off
+export const isStepLocked = (mode: GameMode, step: StepRecord | undefined) => {
+  return !!step && (step.isCorrect || !MODE_CONFIGS[mode].allowRetries);
+};
+
+export const getHintPenalty = (mode: GameMode) => MODE_CONFIGS[mode].hintPenalty;
+
+export const getHintTiers = (mode: GameMode) => HINT_TIERS.slice(0, MODE_CONFIGS[mode].hintTiers);
@@ -0,0 +1,124 @@
+// Sample ordering. Fixed runs follow the pack order; adaptive runs pick the next sample by
+// the student's weakest hybridization or mistake type and bring missed samples back on a
+// spaced-repetition schedule.
+
+import { GameState, Mastery, MasteryStat, MoleculeDef, ReviewItem, SampleRecord, StructureFailure } from "../types";
+import { REVIEW_INTERVALS, ADAPTIVE_TURN_LIMIT, MODE_CONFIGS } from "../constants";
+
+export const createMastery = (): Mastery => ({ hybridization: {}, failures: {} });
+
+// Share of misses, damped by one imagined hit so a single early miss doesn't dominate.
+// Areas without misses score 0, which leaves the pack order alone until something goes wrong.
+const getWeakness = (stat: MasteryStat | undefined) => {
+  return (stat?.misses ?? 0) / ((stat?.attempts ?? 0) + 1);
+};
+
+const addOutcome = (stat: MasteryStat | undefined, missed: boolean): MasteryStat => ({
+  attempts: (stat?.attempts ?? 0) + 1,
+  misses: (stat?.misses ?? 0) + (missed ? 1 : 0)
+});
+
+// The mistakes a sample gives room for
+export const getRelevantFailures = (molecule: MoleculeDef): StructureFailure[] => {
+  const failures = [StructureFailure.GEOMETRY, StructureFailure.COUNTS];
+  if (molecule.ligands.some(l => (l.bondOrder ?? 1) > 1)) failures.push(StructureFailure.BOND_ORDER);
+  if (molecule.geometryRules) failures.push(StructureFailure.PLACEMENT);
+  return failures;
+};
+
+// A sample counts as missed unless its structure was right on the first attempt
+export const isSampleMissed = (record: SampleRecord | undefined) => {
+  return !record?.structure || !record.structure.isCorrect || record.structure.attempts > 1;
+};
+
+export const updateMastery = (mastery: Mastery, molecule: MoleculeDef, record: SampleRecord): Mastery => {
+  const made = record.structure?.failures ?? [];
+  const failures = { ...mastery.failures };
+  new Set([...getRelevantFailures(molecule), ...made]).forEach(failure => {
+    failures[failure] = addOutcome(failures[failure], made.includes(failure));
+  });
+
+  return {
+    hybridization: {
+      ...mastery.hybridization,
+      [molecule.hybridization]: addOutcome(mastery.hybridization[molecule.hybridization], isSampleMissed(record))
+    },
+    failures
+  };
+};
+
+// A miss (re)starts the schedule; a correct review moves to the next interval or retires the item
+export const scheduleReview = (reviews: ReviewItem[], moleculeIndex: number, turn: number, missed: boolean): ReviewItem[] => {
+  const existing = reviews.find(r => r.moleculeIndex === moleculeIndex);
+  const others = reviews.filter(r => r.moleculeIndex !== moleculeIndex);
+
+  if (missed) {
+    return [...others, { moleculeIndex, dueTurn: turn + REVIEW_INTERVALS[0], stage: 0 }];
+  }
+  if (!existing) return reviews;
+
+  const stage = existing.stage + 1;
+  if (stage >= REVIEW_INTERVALS.length) return others;
+  return [...others, { moleculeIndex, dueTurn: turn + REVIEW_INTERVALS[stage], stage }];
+};
+
+// How much a sample exercises the student's weak spots
+const getPriority = (molecule: MoleculeDef, mastery: Mastery) => {
+  return Math.max(
+    getWeakness(mastery.hybridization[molecule.hybridization]),
+    ...getRelevantFailures(molecule).map(failure => getWeakness(mastery.failures[failure]))
+  );
+};
+
+// Due reviews come first, then the unseen sample that best targets weak areas (pack order
+// breaks ties), then any review still pending. Reviews never run back to back while unseen
+// samples remain, so repeated misses can't crowd out new material. Returns null when the run is over.
+export const pickNextSample = (molecules: MoleculeDef[], game: GameState): number | null => {
+  const nextTurn = game.sequence.length;
+  if (nextTurn >= molecules.length * ADAPTIVE_TURN_LIMIT) return null;
+
+  const seen = new Set(game.sequence);
+  const lastIndex = game.sequence[nextTurn - 1];
+  const lastWasReview = game.sequence.indexOf(lastIndex) < nextTurn - 1;
+  const byDueTurn = [...game.reviews].sort((a, b) => a.dueTurn - b.dueTurn);
+  const canReview = !lastWasReview || seen.size === molecules.length;
+  if (canReview && byDueTurn.length > 0 && byDueTurn[0].dueTurn <= nextTurn) return byDueTurn[0].moleculeIndex;
+
+  let best: number | null = null;
+  let bestPriority = -1;
+  for (let i = 0; i < molecules.length; i++) {
+    if (seen.has(i)) continue;
+    const priority = getPriority(molecules[i], game.mastery);
+    if (priority > bestPriority) {
+      best = i;
+      bestPriority = priority;
+    }
+  }
+  if (best !== null) return best;
+
+  return byDueTurn.length > 0 ? byDueTurn[0].moleculeIndex : null;
+};
+
+// Records the finished turn's outcome and moves on to the next sample, or completes the run.
+// Only modes with retries schedule reviews: a review in a single-attempt mode would be a
+// second, fully scored attempt at the same sample.
+export const advanceGame = (game: GameState, molecules: MoleculeDef[]): GameState => {
+  const moleculeIndex = game.sequence[game.currentTurn];
+  const record = game.history[game.currentTurn];
+  const allowsReviews = MODE_CONFIGS[game.mode].allowRetries;
+
+  const updated: GameState = record
+    ? {
+        ...game,
+        mastery: updateMastery(game.mastery, molecules[moleculeIndex], record),
+        reviews: allowsReviews ? scheduleReview(game.reviews, moleculeIndex, game.currentTurn, isSampleMissed(record)) : game.reviews
+      }
+    : game;
+
+  const nextIndex = game.adaptive
+    ? pickNextSample(molecules, updated)
+    : moleculeIndex < molecules.length - 1 ? moleculeIndex + 1 : null;
+
+  if (nextIndex === null) return { ...updated, isComplete: true };
+  return { ...updated, currentTurn: game.currentTurn + 1, sequence: [...updated.sequence, nextIndex] };
+};
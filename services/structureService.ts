@@ -0,0 +1,110 @@
+// Builds slot arrangements: empty layouts for the player and the answer structure of a molecule
+
+import { MoleculeDef, HybridizationType, OrbitalSlot, OrbitalPositionType, SlotType, GeometryRules } from "../types";
+import { GEOMETRY_SLOTS, ELECTRONEGATIVITY } from "../constants";
+import { validateStructure } from "./validationService";
+
+type SlotContent = Pick<OrbitalSlot, 'type' | 'ligand' | 'bondOrder'>;
+
+export const createEmptySlots = (hybridization: HybridizationType): OrbitalSlot[] => {
+  return GEOMETRY_SLOTS[hybridization].map((s, i) => ({
+    id: i,
+    direction: s.direction,
+    type: SlotType.EMPTY,
+    positionType: s.type
+  }));
+};
+
+const POSITION_PREFIXES: Record<OrbitalPositionType, string> = {
+  [OrbitalPositionType.AXIAL]: 'axial ',
+  [OrbitalPositionType.EQUATORIAL]: 'equatorial ',
+  [OrbitalPositionType.GENERAL]: ''
+};
+
+const BOND_ORDER_WORDS = ['single', 'double', 'triple'];
+
+// Where a slot points, for screen readers, e.g. "axial top" or "equatorial front left"
+export const describeSlotPosition = (slot: OrbitalSlot) => {
+  const [x, y, z] = slot.direction;
+  const words = [
+    y < -0.3 ? 'top' : y > 0.3 ? 'bottom' : '',
+    z > 0.3 ? 'front' : z < -0.3 ? 'back' : '',
+    x < -0.3 ? 'left' : x > 0.3 ? 'right' : ''
+  ].filter(Boolean);
+  return POSITION_PREFIXES[slot.positionType] + words.join(' ');
+};
+
+// e.g. "axial top, lone pair" or "equatorial front left, double bond to O"
+export const describeSlot = (slot: OrbitalSlot) => {
+  const contents = slot.type === SlotType.BOND
+    ? `${BOND_ORDER_WORDS[(slot.bondOrder ?? 1) - 1]} bond to ${slot.ligand}`
+    : slot.type === SlotType.LONE_PAIR ? 'lone pair' : 'empty';
+  return `${describeSlotPosition(slot)}, ${contents}`;
+};
+
+// Every electron domain of the molecule: its bonds (with ligand and order) and lone pairs
+const getDomains = (molecule: MoleculeDef): SlotContent[] => [
+  ...molecule.ligands.flatMap(ligand =>
+    Array.from({ length: ligand.count }, () => ({ type: SlotType.BOND, ligand: ligand.atom, bondOrder: ligand.bondOrder ?? 1 }))
+  ),
+  ...Array.from({ length: molecule.lonePairs }, () => ({ type: SlotType.LONE_PAIR }))
+];
+
+const getContentKey = (content: SlotContent) => `${content.type}:${content.ligand ?? ''}:${content.bondOrder ?? ''}`;
+
+// Searches the distinct placements of the domains for one that passes validation.
+// Layouts have at most six slots, so the search stays small.
+export const buildReferenceSlots = (molecule: MoleculeDef): OrbitalSlot[] | null => {
+  const emptySlots = createEmptySlots(molecule.hybridization);
+  const domains = getDomains(molecule);
+  if (domains.length !== emptySlots.length) return null;
+
+  const place = (slots: OrbitalSlot[], remaining: SlotContent[]): OrbitalSlot[] | null => {
+    if (remaining.length === 0) {
+      return validateStructure(molecule, molecule.hybridization, slots).isCorrect ? slots : null;
+    }
+
+    const index = slots.findIndex(s => s.type === SlotType.EMPTY);
+    const tried = new Set<string>();
+
+    for (let i = 0; i < remaining.length; i++) {
+      const key = getContentKey(remaining[i]);
+      if (tried.has(key)) continue;
+      tried.add(key);
+
+      const next = slots.map((slot, j) => (j === index ? { ...slot, ...remaining[i] } : slot));
+      const result = place(next, remaining.filter((_, j) => j !== i));
+      if (result) return result;
+    }
+
+    return null;
+  };
+
+  return place(emptySlots, domains);
+};
+
+// Standard VSEPR placement rules for a molecule's layout, lone-pair count and ligands
+export const suggestGeometryRules = (molecule: MoleculeDef): GeometryRules | undefined => {
+  const rules: GeometryRules = {};
+
+  if (molecule.hybridization === HybridizationType.SP3D) {
+    if (molecule.lonePairs > 0) {
+      rules.lonePairsMustBe = OrbitalPositionType.EQUATORIAL;
+      rules.axialMustBe = SlotType.BOND;
+    }
+
+    // Bent's rule: the most electronegative ligand fills both axial slots when there are enough of it
+    const atoms = Array.from(new Set(molecule.ligands.map(l => l.atom)));
+    if (atoms.length > 1) {
+      const [mostElectronegative] = [...atoms].sort((a, b) => (ELECTRONEGATIVITY[b] ?? 0) - (ELECTRONEGATIVITY[a] ?? 0));
+      const count = molecule.ligands.filter(l => l.atom === mostElectronegative).reduce((total, l) => total + l.count, 0);
+      if (count >= 2) rules.axialLigand = mostElectronegative;
+    }
+  }
+
+  if (molecule.hybridization === HybridizationType.SP3D2 && molecule.lonePairs >= 2) {
+    rules.lonePairsTrans = true;
+  }
+
+  return Object.keys(rules).length > 0 ? rules : undefined;
+};
@@ -0,0 +1,199 @@
+// Offline tutor: Socratic hints worked out from the molecule data, the player's current
+// arrangement and their latest mistake. Deterministic and needs no network; only the
+// near-answer tier spells out the counts.
+
+import { HintConcept, HintProvider, HintProviderId, HintRequest, HintTier, MoleculeDef, StructureDiagnosis, StructureFailure, SlotType } from "../types";
+import { BOND_ORDER_SYMBOLS, GEOMETRY_NAMES } from "../constants";
+import { countValenceElectrons } from "./lewisService";
+import { findHintProblem } from "./responseCheckService";
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const ligandTotal = (molecule: MoleculeDef) => molecule.ligands.reduce((total, l) => total + l.count, 0);
+
+const hasMultipleBonds = (molecule: MoleculeDef) => molecule.ligands.some(l => (l.bondOrder ?? 1) > 1);
+
+const geometryHint = (molecule: MoleculeDef, diagnosis?: StructureDiagnosis) => {
+  const atoms = ligandTotal(molecule);
+  const center = molecule.centralAtom;
+
+  if (diagnosis && diagnosis.stericNumber < molecule.stericNumber) {
+    const layout = `Your ${GEOMETRY_NAMES[diagnosis.hybridization]} layout has room for ${plural(diagnosis.stericNumber, 'domain')}`;
+    return atoms > diagnosis.stericNumber
+      ? `${layout}, but ${center} bonds to ${plural(atoms, 'atom')}. How many domains do the bonds alone need?`
+      : `${layout}. Once each ligand has a full shell, are any electrons left on ${center}? Every lone pair needs a domain of its own.`;
+  }
+  if (diagnosis && diagnosis.stericNumber > molecule.stericNumber) {
+    return hasMultipleBonds(molecule)
+      ? `Your layout has ${plural(diagnosis.stericNumber, 'domain')}. Are you counting a double bond as two? A bond is one domain whatever its order.`
+      : `Your layout has ${plural(diagnosis.stericNumber, 'domain')}. Count the electrons again: how many are really left for lone pairs on ${center}?`;
+  }
+
+  const doubleBondNote = hasMultipleBonds(molecule)
+    ? ' Remember that a double or triple bond still points in one direction.'
+    : '';
+  return `${center} is bonded to ${plural(atoms, 'atom')}, but are those its only electron domains? ` +
+    `Count the lone pairs left on ${center} too, then ask which layout spreads that many domains as far apart as possible.${doubleBondNote}`;
+};
+
+const valenceHint = (molecule: MoleculeDef) => {
+  const charge = molecule.charge ?? 0;
+  const valenceElectrons = countValenceElectrons(molecule.centralAtom, molecule.ligands, charge);
+  const chargeNote = charge !== 0
+    ? ` (the ${charge > 0 ? 'positive' : 'negative'} charge ${charge > 0 ? 'removes' : 'adds'} ${Math.abs(charge)})`
+    : '';
+  return `${molecule.formula} has ${valenceElectrons} valence electrons in total${chargeNote}. ` +
+    `Once every ligand has a full shell, how many electrons are still left over, and where must they go?`;
+};
+
+const countsHint = (molecule: MoleculeDef, diagnosis?: StructureDiagnosis) => {
+  if (!diagnosis) return valenceHint(molecule);
+
+  const atoms = ligandTotal(molecule);
+  if (diagnosis.bonds !== atoms) {
+    return `You have drawn ${plural(diagnosis.bonds, 'bond')}, but ${molecule.formula} has ${plural(atoms, 'atom')} around ${molecule.centralAtom}. ` +
+      `Each of those atoms needs a bond of its own to the center.`;
+  }
+
+  const expected: Record<string, number> = {};
+  molecule.ligands.forEach(l => { expected[l.atom] = (expected[l.atom] || 0) + l.count; });
+  const mismatch = Object.keys({ ...expected, ...diagnosis.ligands }).find(atom => (expected[atom] ?? 0) !== (diagnosis.ligands[atom] ?? 0));
+  if (mismatch) {
+    return `Compare your bonded atoms with the formula ${molecule.formula}. How many ${mismatch} atoms does it list, and how many have you bonded?`;
+  }
+
+  if (diagnosis.empty > 0) {
+    return `${plural(diagnosis.empty, 'position')} of your layout ${diagnosis.empty === 1 ? 'is' : 'are'} still empty, ` +
+      `and every domain holds a bond or a lone pair. ${valenceHint(molecule)}`;
+  }
+  return valenceHint(molecule);
+};
+
+const bondOrderHint = (molecule: MoleculeDef, diagnosis?: StructureDiagnosis) => {
+  const multiple = molecule.ligands.find(l => (l.bondOrder ?? 1) > 1);
+  const target = multiple ? multiple.atom : molecule.ligands[0].atom;
+  const current = diagnosis
+    ? `You have drawn ${diagnosis.multipleBonds === 0 ? 'only single bonds' : plural(diagnosis.multipleBonds, 'multiple bond')}. `
+    : '';
+  return `${current}Work out the formal charge on ${molecule.centralAtom} and on each ${target} with your current bonds. ` +
+    `Which bond orders bring those charges as close to zero as the electron count allows?`;
+};
+
+const placementHint = (molecule: MoleculeDef, diagnosis?: StructureDiagnosis) => {
+  const rules = molecule.geometryRules ?? {};
+  const axial = diagnosis?.positions.axial;
+
+  if (rules.axialLigand) {
+    const current = axial
+      ? `Your axial positions hold ${axial.ligands.length > 0 ? axial.ligands.join(' and ') : 'no bonds'}. `
+      : 'Not every position in this layout is equal. ';
+    return `${current}Which ligand is the most electronegative, and which positions let its bonding pairs sit furthest from the others?`;
+  }
+  if (rules.lonePairsTrans) {
+    const current = diagnosis && !diagnosis.lonePairsTrans ? 'Your lone pairs sit 90° apart. ' : '';
+    return `${current}Lone pairs are bulkier than bonding pairs. In an octahedron, where can two lone pairs sit so they are as far apart as possible?`;
+  }
+  if (rules.lonePairsMustBe || rules.axialMustBe === SlotType.BOND) {
+    const current = axial && axial.lonePairs > 0
+      ? `You put ${plural(axial.lonePairs, 'lone pair')} in an axial position. `
+      : '';
+    return `${current}Compare the neighbours of each position: an axial domain has three others at 90°, an equatorial one only two. ` +
+      `Where would a bulky lone pair feel the least crowded?`;
+  }
+  return `Some positions in this layout have more neighbours at 90° than others. Which ones suit the bulkiest domains?`;
+};
+
+const generalHint = (molecule: MoleculeDef) => {
+  return `Start from the Lewis structure of ${molecule.formula}: how many atoms are bonded to ${molecule.centralAtom}, ` +
+    `and how many lone pairs does it keep? Together they give the steric number.`;
+};
+
+// Concept tier: the rule behind the mistake, not yet applied to this molecule. Like a model's
+// reply, it may not name a layout, since the one for this molecule would be among them.
+const CONCEPTS: Record<StructureFailure, string> = {
+  [StructureFailure.GEOMETRY]: 'Every bond, whatever its order, and every lone pair on the central atom is one electron domain. ' +
+    'The domains spread as far apart as possible, so their number alone fixes the layout: picture how that many directions can point furthest from each other.',
+  [StructureFailure.COUNTS]: 'Add up the valence electrons, adjusting for any charge, and let every ligand complete its shell. ' +
+    'Whatever is left stays on the central atom, two electrons per lone pair.',
+  [StructureFailure.BOND_ORDER]: 'Formal charge is valence electrons minus lone-pair electrons minus bonds. ' +
+    'Where several Lewis structures are possible, the best one keeps every formal charge as close to zero as it can.',
+  [StructureFailure.PLACEMENT]: 'Lone pairs repel more strongly than bonding pairs, so they take the positions with the fewest 90° neighbours: ' +
+    'equatorial in a trigonal bipyramid, trans to each other in an octahedron. Among ligands, the most electronegative one tolerates crowding best and goes axial.'
+};
+
+const describePlacementRules = (molecule: MoleculeDef) => {
+  const rules = molecule.geometryRules ?? {};
+  return [
+    rules.lonePairsMustBe ? `every lone pair goes in an ${rules.lonePairsMustBe} position` : '',
+    rules.axialMustBe === SlotType.BOND ? 'both axial positions hold bonds' : '',
+    rules.lonePairsTrans ? 'the lone pairs pair up trans, 180° apart' : '',
+    rules.axialLigand ? `${rules.axialLigand} takes both axial positions` : ''
+  ].filter(Boolean).join(', ');
+};
+
+// Near-answer tier: the counts and rules for this molecule, leaving the building to the player
+const nearAnswerHint = (molecule: MoleculeDef) => {
+  const center = molecule.centralAtom;
+  const multipleBonds = molecule.ligands
+    .filter(l => (l.bondOrder ?? 1) > 1)
+    .map(l => `${l.count} ${center}${BOND_ORDER_SYMBOLS[(l.bondOrder ?? 1) - 1]}${l.atom}`);
+  const sentences = [
+    `${center} in ${molecule.formula} has ${plural(molecule.bondingPairs, 'bonding domain')} and ${plural(molecule.lonePairs, 'lone pair')}, ` +
+      `a steric number of ${molecule.stericNumber}: a ${GEOMETRY_NAMES[molecule.hybridization]} layout.`
+  ];
+  if (multipleBonds.length > 0) sentences.push(`Draw ${multipleBonds.join(' and ')} and single bonds to the rest.`);
+  const rules = describePlacementRules(molecule);
+  if (rules) sentences.push(`In that layout ${rules}.`);
+  return sentences.join(' ');
+};
+
+// The current arrangement takes priority over the last submitted one. An arrangement that
+// would pass is answered like a counting slip, whose hint is the neutral electron-count
+// question, so a hint can't be used to check an answer before verifying it.
+const getIssue = ({ failure, diagnosis }: HintRequest) => {
+  return diagnosis ? diagnosis.failure ?? StructureFailure.COUNTS : failure;
+};
+
+export const getTutorHint = (request: HintRequest) => {
+  const { molecule, tier, diagnosis } = request;
+  const issue = getIssue(request);
+
+  if (tier === HintTier.NEAR_ANSWER) return nearAnswerHint(molecule);
+  if (tier === HintTier.CONCEPT) return CONCEPTS[issue ?? StructureFailure.GEOMETRY];
+
+  switch (issue) {
+    case StructureFailure.GEOMETRY: return geometryHint(molecule, diagnosis);
+    case StructureFailure.COUNTS: return countsHint(molecule, diagnosis);
+    case StructureFailure.BOND_ORDER: return bondOrderHint(molecule, diagnosis);
+    case StructureFailure.PLACEMENT: return placementHint(molecule, diagnosis);
+    default: return generalHint(molecule);
+  }
+};
+
+const FAILURE_CONCEPTS: Record<StructureFailure, HintConcept> = {
+  [StructureFailure.GEOMETRY]: HintConcept.STERIC_NUMBER,
+  [StructureFailure.COUNTS]: HintConcept.ELECTRON_COUNT,
+  [StructureFailure.BOND_ORDER]: HintConcept.FORMAL_CHARGE,
+  [StructureFailure.PLACEMENT]: HintConcept.LONE_PAIR_PLACEMENT
+};
+
+export const getTutorSuccessMessage = (molecule: MoleculeDef) => `Structure stabilized. ${molecule.description}`;
+
+export const offlineTutor: HintProvider = {
+  id: HintProviderId.OFFLINE,
+  label: 'Offline Tutor',
+  // Held to the same tier checks as a model's reply; a text that fails them falls back to the general question
+  getHint: async (request) => {
+    const issue = getIssue(request);
+    const hint = {
+      text: getTutorHint(request),
+      concept: issue ? FAILURE_CONCEPTS[issue] : HintConcept.STERIC_NUMBER,
+      revealsAnswer: request.tier === HintTier.NEAR_ANSWER
+    };
+    const problem = findHintProblem(request, hint);
+    if (!problem) return hint;
+    console.warn(`Offline hint ${problem}; using the general hint.`);
+    return { ...hint, text: generalHint(request.molecule), concept: HintConcept.STERIC_NUMBER };
+  },
+  getSuccessMessage: async (molecule) => getTutorSuccessMessage(molecule)
+};
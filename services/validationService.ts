@@ -0,0 +1,187 @@
+// Structure validation for a player's slot arrangement
+
+import {
+  MoleculeDef,
+  LigandDef,
+  HybridizationType,
+  OrbitalSlot,
+  OrbitalPositionType,
+  SlotType,
+  StructureFailure,
+  StructureResult,
+  AnswerResult
+} from "../types";
+import {
+  GEOMETRY_NAMES,
+  MOLECULAR_SHAPE_NAMES,
+  BOND_ANGLE_TOLERANCE,
+  PLACEMENT_FAILURE_MESSAGES,
+  DEFAULT_PLACEMENT_FAILURE,
+  BOND_ORDER_SYMBOLS
+} from "../constants";
+import { areTrans, getPrincipalBondAngle } from "./bondAngleService";
+
+const countTransPairs = (slots: OrbitalSlot[]) => {
+  let pairs = 0;
+  slots.forEach((slot, i) => {
+    slots.slice(i + 1).forEach(other => {
+      if (areTrans(slot, other)) pairs++;
+    });
+  });
+  return pairs;
+};
+
+export const getPlacementFailureMessage = (molecule: MoleculeDef) => {
+  return PLACEMENT_FAILURE_MESSAGES[molecule.hybridization]?.[molecule.lonePairs] ?? DEFAULT_PLACEMENT_FAILURE;
+};
+
+// Returns the failure message of the first broken placement rule, or null when the slots satisfy them all
+export const findPlacementViolation = (molecule: MoleculeDef, slots: OrbitalSlot[]): string | null => {
+  const rules = molecule.geometryRules;
+  if (!rules) return null;
+
+  const lonePairSlots = slots.filter(s => s.type === SlotType.LONE_PAIR);
+  const axialSlots = slots.filter(s => s.positionType === OrbitalPositionType.AXIAL);
+
+  if (rules.lonePairsMustBe && lonePairSlots.some(s => s.positionType !== rules.lonePairsMustBe)) {
+    return getPlacementFailureMessage(molecule);
+  }
+
+  if (rules.axialMustBe && axialSlots.some(s => s.type !== rules.axialMustBe)) {
+    return getPlacementFailureMessage(molecule);
+  }
+
+  // As many lone pairs as possible must face each other across the center
+  if (rules.lonePairsTrans && countTransPairs(lonePairSlots) < Math.floor(lonePairSlots.length / 2)) {
+    return getPlacementFailureMessage(molecule);
+  }
+
+  if (rules.axialLigand && axialSlots.some(s => s.type !== SlotType.BOND || s.ligand !== rules.axialLigand)) {
+    return `Unstable arrangement! ${rules.axialLigand} is the most electronegative ligand and belongs in the axial positions.`;
+  }
+
+  return null;
+};
+
+// Totals each ligand element over its bond-order entries
+const countLigandAtoms = (ligands: LigandDef[]) => {
+  const counts: Record<string, number> = {};
+  ligands.forEach(ligand => {
+    counts[ligand.atom] = (counts[ligand.atom] || 0) + ligand.count;
+  });
+  return counts;
+};
+
+const describeLigands = (ligands: LigandDef[]) => {
+  return Object.entries(countLigandAtoms(ligands)).map(([atom, count]) => `${count} ${atom}`).join(' and ');
+};
+
+const BOND_NAMES: Record<number, string> = { 1: 'single', 2: 'double', 3: 'triple' };
+
+const describeBonds = (centralAtom: string, ligands: LigandDef[]) => {
+  return ligands.map(ligand => {
+    const bondOrder = ligand.bondOrder ?? 1;
+    return `${ligand.count} ${centralAtom}${BOND_ORDER_SYMBOLS[bondOrder - 1]}${ligand.atom} ${BOND_NAMES[bondOrder]} bond${ligand.count === 1 ? '' : 's'}`;
+  }).join(' and ');
+};
+
+export const validateStructure = (
+  molecule: MoleculeDef,
+  hybridization: HybridizationType,
+  slots: OrbitalSlot[]
+): StructureResult => {
+  // 1. Check Hybridization (Geometry)
+  if (hybridization !== molecule.hybridization) {
+    return {
+      isCorrect: false,
+      failure: StructureFailure.GEOMETRY,
+      failReason: `Incorrect Geometry. The stable shape is ${GEOMETRY_NAMES[molecule.hybridization]}.`
+    };
+  }
+
+  // 2. Check Counts
+  const bonds = slots.filter(s => s.type === SlotType.BOND).length;
+  const lonePairs = slots.filter(s => s.type === SlotType.LONE_PAIR).length;
+
+  if (bonds !== molecule.bondingPairs || lonePairs !== molecule.lonePairs) {
+    return {
+      isCorrect: false,
+      failure: StructureFailure.COUNTS,
+      failReason: `Incorrect orbital contents. Expected ${molecule.bondingPairs} Bonds and ${molecule.lonePairs} Lone Pairs.`
+    };
+  }
+
+  const bondSlots = slots.filter(s => s.type === SlotType.BOND);
+  const isLigandMismatch = Object.entries(countLigandAtoms(molecule.ligands)).some(
+    ([atom, count]) => bondSlots.filter(s => s.ligand === atom).length !== count
+  );
+
+  if (isLigandMismatch) {
+    return {
+      isCorrect: false,
+      failure: StructureFailure.COUNTS,
+      failReason: `Incorrect ligands. Expected bonds to ${describeLigands(molecule.ligands)}.`
+    };
+  }
+
+  // A multiple bond is still one domain, but the Lewis structure must match one resonance form
+  const isBondOrderMismatch = molecule.ligands.some(
+    ligand => bondSlots.filter(s => s.ligand === ligand.atom && (s.bondOrder ?? 1) === (ligand.bondOrder ?? 1)).length !== ligand.count
+  );
+
+  if (isBondOrderMismatch) {
+    return {
+      isCorrect: false,
+      failure: StructureFailure.BOND_ORDER,
+      failReason: `Incorrect bond orders. Expected ${describeBonds(molecule.centralAtom, molecule.ligands)}.`
+    };
+  }
+
+  // 3. Check Geometry Rules (Specific Mechanics)
+  const violation = findPlacementViolation(molecule, slots);
+  if (violation) {
+    return {
+      isCorrect: false,
+      failure: StructureFailure.PLACEMENT,
+      failReason: violation
+    };
+  }
+
+  return { isCorrect: true, failReason: "" };
+};
+
+export const getMolecularShape = (molecule: MoleculeDef) => {
+  return MOLECULAR_SHAPE_NAMES[molecule.hybridization][molecule.lonePairs];
+};
+
+export const validateMolecularShape = (molecule: MoleculeDef, shape: string): AnswerResult => {
+  const expected = getMolecularShape(molecule);
+
+  if (shape !== expected) {
+    const lonePairs = `${molecule.lonePairs} lone pair${molecule.lonePairs === 1 ? '' : 's'}`;
+    return {
+      isCorrect: false,
+      failReason: `Incorrect Shape. ${GEOMETRY_NAMES[molecule.hybridization]} electron geometry with ${lonePairs} gives a ${expected} molecule.`
+    };
+  }
+
+  return { isCorrect: true, failReason: "" };
+};
+
+export const validateBondAngleEstimate = (molecule: MoleculeDef, estimate: number): AnswerResult => {
+  const angle = getPrincipalBondAngle(molecule);
+  if (!angle) return { isCorrect: false, failReason: `${molecule.formula} has no bond angle to estimate.` };
+  const { ideal, predicted } = angle;
+
+  if (Math.abs(estimate - predicted) > BOND_ANGLE_TOLERANCE) {
+    const compression = predicted < ideal
+      ? ` Lone-pair repulsion compresses the ideal ${ideal}° to about ${predicted}°.`
+      : ` The ideal ${ideal}° angle is not distorted here.`;
+    return {
+      isCorrect: false,
+      failReason: `Estimate off. The bond angle is about ${predicted}°.${compression}`
+    };
+  }
+
+  return { isCorrect: true, failReason: "" };
+};
@@ -0,0 +1,40 @@
+// Small 3D vector helpers for the domain directions
+
+import { Vec3 } from "../types";
+
+export const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+
+export const scale = (v: Vec3, factor: number): Vec3 => [v[0] * factor, v[1] * factor, v[2] * factor];
+
+export const magnitude = (v: Vec3) => Math.sqrt(dot(v, v));
+
+export const normalize = (v: Vec3): Vec3 => scale(v, 1 / (magnitude(v) || 1));
+
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+
+// Angle between two unit vectors, in degrees
+export const angleBetween = (a: Vec3, b: Vec3) => {
+  const cosine = Math.min(1, Math.max(-1, dot(a, b)));
+  return (Math.acos(cosine) * 180) / Math.PI;
+};
+
+// Point a fraction t of the way along the great-circle arc between two unit vectors
+export const slerp = (a: Vec3, b: Vec3, t: number): Vec3 => {
+  const angle = (angleBetween(a, b) * Math.PI) / 180;
+  if (angle < 1e-6) return a;
+
+  // Opposite vectors have no unique arc, so bend it through a perpendicular
+  if (Math.PI - angle < 1e-6) {
+    const perpendicular = normalize(cross(a, Math.abs(a[2]) < 0.9 ? [0, 0, 1] : [1, 0, 0]));
+    return t < 0.5 ? slerp(a, perpendicular, t * 2) : slerp(perpendicular, b, t * 2 - 1);
+  }
+
+  const sine = Math.sin(angle);
+  return add(scale(a, Math.sin((1 - t) * angle) / sine), scale(b, Math.sin(t * angle) / sine));
+};
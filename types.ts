@@ -18,33 +18,277 @@ export enum OrbitalPositionType {
   GENERAL = 'general' // For geometries where all positions are equivalent (e.g., tetrahedral)
 }
 
+export type Vec3 = [number, number, number];
+
+// Orientation of the visualizer's view, in degrees: yaw turns about the vertical axis, pitch tips toward the viewer
+export interface ViewCamera {
+  yaw: number;
+  pitch: number;
+}
+
 export interface OrbitalSlot {
   id: number;
-  angle: number; // Angle in degrees for 2D projection visualization
-  tilt: number; // Z-axis tilt for pseudo-3D effect (0 to 1)
+  direction: Vec3; // 3D unit vector of the domain (x right, y down, z toward the viewer)
   type: SlotType;
   positionType: OrbitalPositionType;
+  ligand?: string; // Ligand atom held by a bond slot
+  bondOrder?: number; // 1 (single), 2 (double) or 3 (triple) for a bond slot
+}
+
+// An electron domain waiting in the palette: a bond to one ligand atom, or a lone pair.
+// Bond order is chosen separately when the domain is placed.
+export interface DomainToken {
+  type: SlotType.BOND | SlotType.LONE_PAIR;
+  ligand?: string;
+}
+
+export interface PaletteEntry {
+  domain: DomainToken;
+  total: number;
+  remaining: number;
+}
+
+export interface LigandDef {
+  atom: string;
+  count: number;
+  bondOrder?: number; // Bond order to the center, defaults to 1
+  // Bond orders the ligand forms beyond the center, for an inner atom of an imported
+  // structure; they complete its shell in place of lone pairs. Defaults to 0 (terminal).
+  externalBonds?: number;
+}
+
+export interface GeometryRules {
+  lonePairsMustBe?: OrbitalPositionType; // Position class every lone pair must occupy
+  axialMustBe?: SlotType; // Content both axial slots must hold (e.g. bonds in SF₄ and ClF₃)
+  lonePairsTrans?: boolean; // Lone pairs pair up 180° apart (e.g. XeF₄ in the sp³d² layout)
+  axialLigand?: string; // Ligand that must fill the axial slots (the most electronegative one in SOF₄)
 }
 
 export interface MoleculeDef {
   formula: string;
   name: string;
   centralAtom: string;
-  ligandAtom: string; // The atom bonding to the center
+  ligands: LigandDef[]; // The atoms bonding to the center, with a count per element
+  charge?: number; // Net ionic charge, e.g. -1 for ClO₃⁻ (defaults to 0)
   bondingPairs: number;
   lonePairs: number;
   stericNumber: number;
   hybridization: HybridizationType;
   description: string;
-  // For validation of sp3d specifically
-  geometryRules?: {
-    lonePairsMustBe?: OrbitalPositionType; 
+  // Placement rules for the sp³d and sp³d² layouts
+  geometryRules?: GeometryRules;
+}
+
+export enum ChallengeDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard'
+}
+
+// A central atom (or ion) the challenge generator may build around. valences lists the
+// bond-order sums it is allowed to reach; expandedHalogens may bond past an octet.
+export interface GeneratorCenter {
+  atom: string;
+  charge?: number;
+  valences: number[];
+  halogens: string[];
+  expandedHalogens?: string[];
+  maxOxo?: number; // Double-bonded O ligands, only used for valences of 4 or more
+}
+
+export interface LevelPack {
+  formatVersion: number; // Level-pack file format, see LEVEL_PACK_FORMAT_VERSION
+  id: string;
+  title: string;
+  description?: string;
+  author?: string;
+  molecules: MoleculeDef[];
+}
+
+export interface LewisData {
+  valenceElectrons: number; // Total valence electrons, including the ionic charge
+  bondingPairs: number;
+  lonePairs: number; // Lone pairs on the central atom
+  stericNumber: number;
+  hybridization: HybridizationType;
+  centralElectrons: number; // Electrons in the central atom's shell: lone pairs plus shared bond electrons
+  formalCharge: number; // Formal charge on the central atom
+}
+
+export interface FormalCharges {
+  central: number;
+  ligands: Record<number, number>; // Keyed by slot id
+}
+
+export enum StructureFailure {
+  GEOMETRY = 'geometry',
+  COUNTS = 'counts',
+  BOND_ORDER = 'bond_order',
+  PLACEMENT = 'placement'
+}
+
+export interface AnswerResult {
+  isCorrect: boolean;
+  failReason: string;
+}
+
+export interface StructureResult extends AnswerResult {
+  failure?: StructureFailure;
+}
+
+export enum GameMode {
+  PRACTICE = 'practice',
+  EXAM = 'exam'
+}
+
+export type ScoredStep = 'STRUCTURE' | 'MOLECULAR_SHAPE' | 'BOND_ANGLE' | 'POLARITY';
+
+export interface ModeConfig {
+  label: string;
+  intro: string;
+  protocolNote: string;
+  allowRetries: boolean;
+  scoring: Record<ScoredStep, number>;
+  retryPenalty: number; // Fraction of a step's points lost per extra attempt
+  partialStructureCredit: number; // Fraction of the structure points for the right geometry alone
+  hintPenalty: number;
+  hintTiers: number; // Rungs of the hint ladder offered, from the first
+}
+
+// Outcome of one answer step; points is the best credit earned over all attempts
+export interface StepRecord {
+  isCorrect: boolean;
+  attempts: number;
+  points: number;
+}
+
+// Everything the student answered for one sample, enough to restore it on resume
+export interface SampleRecord {
+  formula: string;
+  structure?: StepRecord & {
+    hybridization: HybridizationType;
+    slots: OrbitalSlot[];
+    failReason: string;
+    failures: StructureFailure[]; // Every kind of mistake made across attempts
   };
+  shape?: StepRecord & { answer: string };
+  bondAngle?: StepRecord & { estimate: number | null }; // estimate is null when skipped
+  polarity?: StepRecord & { answer: string };
+  hintsUsed: number;
+  timeSpentMs: number; // Active time on the sample, up to its latest submission
+}
+
+export interface MasteryStat {
+  attempts: number;
+  misses: number;
+}
+
+// Per-hybridization and per-mistake track record that drives the adaptive order
+export interface Mastery {
+  hybridization: Partial<Record<HybridizationType, MasteryStat>>;
+  failures: Partial<Record<StructureFailure, MasteryStat>>;
+}
+
+// A missed sample waiting to come back; stage indexes REVIEW_INTERVALS
+export interface ReviewItem {
+  moleculeIndex: number;
+  dueTurn: number;
+  stage: number;
 }
 
 export interface GameState {
-  currentMoleculeIndex: number;
+  mode: GameMode;
+  adaptive: boolean;
+  currentTurn: number;
+  sequence: number[]; // Pack index of the molecule shown at each turn
   score: number;
-  history: boolean[]; // Track success/fail for each level
+  history: SampleRecord[]; // One record per turn
+  mastery: Mastery;
+  reviews: ReviewItem[];
   isComplete: boolean;
-}
\ No newline at end of file
+}
+
+export enum HintProviderId {
+  GEMINI = 'gemini',
+  OPENAI = 'openai',
+  OFFLINE = 'offline'
+}
+
+export interface PositionContents {
+  bonds: number;
+  lonePairs: number;
+  empty: number;
+  ligands: string[]; // Bonded atoms, with a bond-order symbol for multiple bonds (e.g. "O=")
+}
+
+// What the player has built so far, as the tutor sees it
+export interface StructureDiagnosis {
+  hybridization: HybridizationType;
+  stericNumber: number; // Domains the selected layout holds
+  bonds: number;
+  lonePairs: number;
+  empty: number;
+  ligands: Record<string, number>; // Bonded atoms per element
+  multipleBonds: number;
+  positions: Partial<Record<OrbitalPositionType, PositionContents>>;
+  lonePairsTrans: boolean; // At least one pair of lone pairs sits 180° apart
+  failure?: StructureFailure; // What verifying this arrangement would flag, if anything
+}
+
+// Hint ladder rungs, revealed in this order
+export enum HintTier {
+  NUDGE = 'nudge',
+  CONCEPT = 'concept',
+  NEAR_ANSWER = 'near_answer'
+}
+
+// What the tutor knows when asked for a hint
+export interface HintRequest {
+  molecule: MoleculeDef;
+  tier: HintTier;
+  currentError?: string; // failReason of the latest wrong structure, if any
+  failure?: StructureFailure;
+  diagnosis?: StructureDiagnosis; // Absent until the player picks a layout
+}
+
+// What a hint teaches, tagged by the provider
+export enum HintConcept {
+  STERIC_NUMBER = 'steric_number',
+  ELECTRON_COUNT = 'electron_count',
+  FORMAL_CHARGE = 'formal_charge',
+  LONE_PAIR_PLACEMENT = 'lone_pair_placement',
+  MOLECULAR_SHAPE = 'molecular_shape',
+  GENERAL = 'general'
+}
+
+// The structured reply every provider gives; model output is checked against the molecule first
+export interface StructuredHint {
+  text: string;
+  concept: HintConcept;
+  revealsAnswer: boolean;
+}
+
+export interface HintCallOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // Called with the text so far while a response streams in
+}
+
+export interface HintProvider {
+  id: HintProviderId;
+  label: string;
+  getHint: (request: HintRequest, options?: HintCallOptions) => Promise<StructuredHint>;
+  getSuccessMessage: (molecule: MoleculeDef, options?: HintCallOptions) => Promise<string>;
+}
+
+// Player audio preferences; volumes run from 0 to 1 and scale each channel's full level
+export interface AudioSettings {
+  masterVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  masterMuted: boolean;
+  musicMuted: boolean;
+  sfxMuted: boolean;
+}
+
+export type AudioVolumeKey = 'masterVolume' | 'musicVolume' | 'sfxVolume';
+export type AudioMuteKey = 'masterMuted' | 'musicMuted' | 'sfxMuted';
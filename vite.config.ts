@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.HINT_PROVIDER': JSON.stringify(env.HINT_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL)
       },
       resolve: {
         alias: {